@@ -0,0 +1,117 @@
+#!/usr/bin/env node
+import { readFileSync } from "node:fs";
+import {
+  DIRECT_SOLVE_MAX_STATES,
+  importMrp,
+  parseRulePack,
+  readMrp,
+  registerRulePack,
+  replayDerivation,
+  ratToString,
+  solveMrp,
+  solveMrpExact,
+  solveMrpSparse,
+  validateRulePack,
+  verifyDerivation,
+} from "../src/lib";
+
+/**
+ * Command line front end to the headless library. Every command reads one or
+ * more files (JSON, or CSV for MRPs) and prints a JSON result with one entry per file.
+ *
+ * Exit codes: 0 when every file checks out, 1 when a derivation does not
+ * verify or an MRP cannot be solved, 2 for usage errors and unreadable input.
+ */
+
+const USAGE = `Usage: bellman <command> [--pack <rules.json>]... <file>...
+
+Commands:
+  verify   Replay each saved derivation and list the steps that do not check out
+  replay   Replay each saved derivation and print every step with the LaTeX its rule gives
+  solve    Solve V = (I - gamma P)^{-1} R for an MRP ({"gamma", "P", "R", "states"?}, or CSV as exported by the app)
+           or a saved derivation;
+           entries may be fractions such as "1/3", and "exact" gives V as reduced fractions;
+           large MRPs are solved iteratively, with the relative "residual" of the result
+  check-pack  Validate JSON rule packs and replay the examples of their rules
+
+Options:
+  --pack <rules.json>  Load a JSON rule pack before reading derivations that use it`;
+
+type Outcome = { ok: boolean; invalid?: boolean; result: object };
+
+const commands: Record<string, (text: string) => Outcome> = {
+  verify: (text) => {
+    const report = verifyDerivation(text);
+    return { ok: report.ok, result: report };
+  },
+  replay: (text) => {
+    const report = replayDerivation(text);
+    return { ok: report.ok, result: report };
+  },
+  solve: (text) => {
+    const mrp = importMrp(text);
+    try {
+      // An MRP that reads but does not validate cannot be solved, which is not a usage error.
+      const model = readMrp(mrp);
+      if (model.states.length > DIRECT_SOLVE_MAX_STATES) {
+        const { V, iterations, residuals, converged } = solveMrpSparse(model);
+        const residual = residuals[residuals.length - 1];
+        return { ok: converged, result: { ok: converged, states: model.states, gamma: model.gamma, V, iterations, residual } };
+      }
+      const V = solveMrp(model);
+      const exact = model.exact ? solveMrpExact(model).map(ratToString) : undefined;
+      return { ok: true, result: { ok: true, states: model.states, gamma: model.gamma, V, exact } };
+    } catch (e) {
+      return { ok: false, result: { ok: false, error: e instanceof Error ? e.message : String(e) } };
+    }
+  },
+  "check-pack": (text) => {
+    const { pack, errors } = validateRulePack(JSON.parse(text));
+    return { ok: pack !== null, result: { ok: pack !== null, id: pack?.id, rules: pack?.rules.length, errors } };
+  },
+};
+
+function main(args: string[]): number {
+  const [command, ...rest] = args;
+  const files: string[] = [];
+  for (let i = 0; i < rest.length; i++) {
+    if (rest[i] !== "--pack") {
+      files.push(rest[i]);
+      continue;
+    }
+    const packFile = rest[++i];
+    if (packFile === undefined) {
+      console.error(USAGE);
+      return 2;
+    }
+    try {
+      registerRulePack(parseRulePack(readFileSync(packFile, "utf8")));
+    } catch (e) {
+      console.error(`${packFile}: ${e instanceof Error ? e.message : String(e)}`);
+      return 2;
+    }
+  }
+
+  // Inherited keys such as "constructor" are not commands.
+  const run = Object.prototype.hasOwnProperty.call(commands, command) ? commands[command] : undefined;
+  if (!run || files.length === 0) {
+    console.error(USAGE);
+    return command === "--help" || command === "-h" ? 0 : 2;
+  }
+
+  const outcomes = files.map((file): Outcome & { file: string } => {
+    try {
+      return { file, ...run(readFileSync(file, "utf8")) };
+    } catch (e) {
+      return { file, ok: false, invalid: true, result: { ok: false, error: e instanceof Error ? e.message : String(e) } };
+    }
+  });
+
+  const results = outcomes.map(({ file, result }) => ({ file, ...result }));
+  console.log(JSON.stringify(files.length === 1 ? results[0] : { ok: outcomes.every((o) => o.ok), results }, null, 2));
+
+  if (outcomes.some((o) => o.invalid)) return 2;
+  return outcomes.every((o) => o.ok) ? 0 : 1;
+}
+
+process.exitCode = main(process.argv.slice(2));
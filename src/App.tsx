@@ -1,111 +1,514 @@
-import React, { useMemo, useState } from "react";
-import { ComputeEngine } from "@cortex-js/compute-engine";
-import { InlineMath, BlockMath } from "react-katex";
+import React, { useEffect, useMemo, useState } from "react";
+import { InlineMath } from "react-katex";
 import { LatexRenderer } from "./components/LatexRenderer";
-import type { DerivationStep } from "./types";
-import { applicableRules, applyRule } from "./ruleEngine";
-import { mrpBellmanRules } from "./rules/mrpBellmanRules";
-import LinearAlgebraPanel from "./components/LinearAlgebraPanel";
+import type { DerivationFile, DerivationStep, DerivationTree, Exercise, ExprPath, MrpParams } from "./types";
+import { applicableRules, blockedRules, ruleErrors } from "./ruleEngine";
+import { nearMisses, tryApplyRule, type RuleFailure } from "./diagnostics";
+import { addChild, branchLeaf, createTree, getNode, pathTo, setMainBranch } from "./derivationTree";
+import { findDerivation, type SearchResult } from "./proofSearch";
+import { rulePacks } from "./rules";
+import { bundledPackErrors } from "./rules/bundled";
+import RulePackLoader from "./components/RulePackLoader";
+import LinearAlgebraPanel, { type DirectSolution } from "./components/LinearAlgebraPanel";
+import StateGraph from "./components/StateGraph";
+import MrpLibrary from "./components/MrpLibrary";
+import BranchExplorer from "./components/BranchExplorer";
+import StepCheckView from "./components/StepCheckView";
+import SaveShareCard from "./components/SaveShareCard";
+import { DERIVATION_FORMAT_VERSION, decodeShareHash, encodeShareHash, type ImportResult, type ReplayIssues } from "./derivationFile";
+import { manualEditStep } from "./equivalence";
+import GroundedEquations from "./components/GroundedEquations";
+import { isMrpBellmanEquation } from "./grounding";
+import { DIRECT_SOLVE_MAX_STATES, solveMrp, validateMrp } from "./mrp";
+import { mrpExamples } from "./mrpLibrary";
 import { canonicalizeLatex } from "./utils/latex";
+import { lessons } from "./lessons";
+import ExercisePanel from "./components/ExercisePanel";
+import RuleDiagnostics from "./components/RuleDiagnostics";
+import HighlightedMath from "./components/HighlightedMath";
+import { subexpressionAt } from "./utils/exprPath";
+import { parseLatex } from "./utils/latexParser";
+import { serializeLatex } from "./utils/latexSerializer";
+import {
+  countSteps,
+  exerciseRules,
+  failureFeedback,
+  isExerciseComplete,
+  scoreExercise,
+  type ExerciseEvent,
+  type ExerciseScore,
+} from "./exercise";
 
+const DEFAULT_MRP: MrpParams = mrpExamples[0].mrp;
 
-const START: DerivationStep = {
-  latex: "v(s)",
-  ruleName: "Start",
-  explanation: "Start from the value function for a state s.",
+/** Large MRPs are validated once typing pauses for this long, in milliseconds. */
+const VALIDATE_DELAY = 300;
+
+/** The URL keeps the current state once editing pauses for this long, in milliseconds. */
+const HASH_DELAY = 1000;
+
+/** Longer P text is left out of the URL until a link is asked for, since it would make the address unwieldy. */
+const HASH_MAX_P_LENGTH = 10_000;
+
+/** Rows of P as typed, counted without splitting the text. */
+function rowCount(P: string): number {
+  let rows = 1;
+  for (let i = P.indexOf("\n"); i !== -1; i = P.indexOf("\n", i + 1)) rows++;
+  return rows;
+}
+
+const findExercise = (key: string): Exercise | null => {
+  const [lessonId, exerciseId] = key.split("/");
+  return lessons.find((l) => l.id === lessonId)?.exercises.find((e) => e.id === exerciseId) ?? null;
 };
 
+/** A derivation shared through the URL hash, if the page was opened with one. */
+function restoreFromHash(): { result: ImportResult | null; error?: string } {
+  try {
+    return { result: decodeShareHash(window.location.hash) };
+  } catch (e) {
+    return { result: null, error: e instanceof Error ? e.message : String(e) };
+  }
+}
+
 export default function App() {
-  // Ready for AST rewrites later (not required for these string-based rules).
-  useMemo(() => new ComputeEngine(), []);
-
-  const [steps, setSteps] = useState<DerivationStep[]>([START]);
-  const [activeIndex, setActiveIndex] = useState<number>(0);
-
-  const active = steps[activeIndex];
-  const rules = useMemo(() => applicableRules(active.latex, mrpBellmanRules), [active.latex]);
-
-  const setActiveLatex = (nextLatex: string) => {
-    // Controlled edit creates a new branch from the current step.
-    const nextStep: DerivationStep = {
-      latex: nextLatex,
-      ruleName: "Manual edit",
-      explanation: "You edited the expression.",
-    };
-    setSteps((prev) => prev.slice(0, activeIndex + 1).concat(nextStep));
-    setActiveIndex((_) => activeIndex + 1);
-  };
+  const [restored] = useState(restoreFromHash);
+  const saved = restored.result?.file;
 
-  const onApplyRule = (ruleId: string) => {
-    const rule = mrpBellmanRules.find((r) => r.id === ruleId);
-    if (!rule) return;
+  const [packId, setPackId] = useState<string>(saved?.packId ?? rulePacks[0].id);
+  const [planIndex, setPlanIndex] = useState<number>(saved?.planIndex ?? 0);
+  const pack = rulePacks.find((p) => p.id === packId) ?? rulePacks[0];
+  const plan = pack.derivations[planIndex] ?? pack.derivations[0];
+
+  const [tree, setTree] = useState<DerivationTree>(() => saved?.tree ?? createTree(plan.start));
+  const [activeId, setActiveId] = useState<string>(saved?.activeId ?? "0");
+  const [leafId, setLeafId] = useState<string>(() => (saved ? branchLeaf(saved.tree, saved.activeId) : "0"));
+  const [mrp, setMrp] = useState<MrpParams>(saved?.mrp ?? DEFAULT_MRP);
+  /** Imported steps that their rule no longer reproduces */
+  const [issues, setIssues] = useState<ReplayIssues>(restored.result?.issues ?? {});
+  const [loadError, setLoadError] = useState<string | undefined>(restored.error);
+
+  /** `lessonId/exerciseId` of the exercise being worked on; empty for a free derivation */
+  const [exerciseKey, setExerciseKey] = useState("");
+  const exercise = useMemo(() => findExercise(exerciseKey), [exerciseKey]);
+  const [events, setEvents] = useState<ExerciseEvent[]>([]);
+  const [solved, setSolved] = useState<ExerciseScore | null>(null);
+  const ruleSet = useMemo(() => (exercise ? exerciseRules(exercise, pack) : pack.rules), [exercise, pack]);
+  const goal = exercise?.target ?? plan.goal;
+
+  const active = getNode(tree, activeId);
+  /** Text typed over a step and not yet committed as a manual edit */
+  const [draft, setDraft] = useState<{ forId: string; latex: string } | null>(null);
+  /** Subexpression of a step that rules should be applied to */
+  const [selection, setSelection] = useState<{ forId: string; path: ExprPath } | null>(null);
+  const selected = selection?.forId === activeId && selection.path.length > 0 ? selection.path : undefined;
+  const selectedLatex = useMemo(() => {
+    if (!selected) return null;
+    try {
+      const sub = subexpressionAt(parseLatex(active.latex), selected);
+      return sub === undefined ? null : serializeLatex(sub);
+    } catch {
+      return null;
+    }
+  }, [active.latex, selected]);
+  const select = (path: ExprPath | null) => setSelection(path ? { forId: activeId, path } : null);
+
+  /** The part of the previous step that the active step's rule rewrote, if it was a selection */
+  const appliedTo = useMemo(() => {
+    if (!active.at || active.parentId === null) return null;
     try {
-      const next = applyRule(active, rule);
-      setSteps((prev) => prev.slice(0, activeIndex + 1).concat(next));
-      setActiveIndex((_) => activeIndex + 1);
+      const sub = subexpressionAt(parseLatex(getNode(tree, active.parentId).latex), active.at);
+      return sub === undefined ? null : serializeLatex(sub);
+    } catch {
+      return null;
+    }
+  }, [tree, active]);
+
+  const rules = useMemo(() => applicableRules(active.latex, ruleSet, selected), [active.latex, ruleSet, selected]);
+  const blocked = useMemo(() => blockedRules(active.latex, ruleSet, selected), [active.latex, ruleSet, selected]);
+  const brokenRules = useMemo(() => ruleErrors(active.latex, ruleSet, selected), [active.latex, ruleSet, selected]);
+  // In an exercise, naming the rule that almost applies would give the answer away.
+  const almost = useMemo(
+    () => (exercise ? [] : nearMisses(active.latex, ruleSet, selected)),
+    [exercise, active.latex, ruleSet, selected]
+  );
+
+  // Exercises offer every allowed rule, so that picking the wrong one is possible.
+  const offered = exercise ? ruleSet : rules;
+
+  const score = useMemo(
+    () =>
+      scoreExercise(events, countSteps(pathTo(tree, activeId)), exercise !== null && isExerciseComplete(exercise, active.latex)),
+    [events, tree, activeId, exercise, active.latex]
+  );
+  const outOfSteps = exercise?.maxSteps !== undefined && !score.complete && score.steps >= exercise.maxSteps;
+  const outOfHints = exercise?.maxHints !== undefined && score.hints >= exercise.maxHints;
+
+  // The score is kept as it was when the target was first reached.
+  useEffect(() => {
+    if (score.complete && !solved) setSolved(score);
+  }, [score, solved]);
+
+  const [guidance, setGuidance] = useState<{ forId: string; text: string } | null>(null);
+  /** Last rule that failed, for the step it was tried on */
+  const [diagnostic, setDiagnostic] = useState<{ forId: string; failure: RuleFailure; feedback?: string } | null>(null);
+  /** Step whose Bellman equation is shown instantiated on the MRP */
+  const [groundedId, setGroundedId] = useState<string | null>(null);
+
+  const canGround = useMemo(() => isMrpBellmanEquation(active.latex), [active.latex]);
+  // The MRP is validated and solved once here, for the panels and the grounding.
+  // Reading n² cells is slow for large MRPs, so those wait until typing pauses.
+  const [settledMrp, setSettledMrp] = useState(mrp);
+  useEffect(() => {
+    const timer = setTimeout(() => setSettledMrp(mrp), VALIDATE_DELAY);
+    return () => clearTimeout(timer);
+  }, [mrp]);
+  const checkedMrp = rowCount(mrp.P) > DIRECT_SOLVE_MAX_STATES ? settledMrp : mrp;
+  const validation = useMemo(() => validateMrp(checkedMrp), [checkedMrp]);
+  // Larger MRPs are solved iteratively by the linear algebra panel.
+  const solution = useMemo((): DirectSolution | null => {
+    const { model } = validation;
+    if (!model || model.states.length > DIRECT_SOLVE_MAX_STATES) return null;
+    try {
+      return { ok: true, V: solveMrp(model) };
     } catch (e) {
-      const msg = e instanceof Error ? e.message : String(e);
-      const next: DerivationStep = {
-        latex: active.latex,
-        ruleName: `Rule failed: ${rule.name}`,
-        explanation: msg,
-      };
-      setSteps((prev) => prev.slice(0, activeIndex + 1).concat(next));
-      setActiveIndex((_) => activeIndex + 1);
+      return { ok: false, error: e instanceof Error ? e.message : String(e) };
+    }
+  }, [validation]);
+  const grounded = useMemo(() => {
+    const { model, issues } = validation;
+    if (!model) return { ok: false as const, error: issues.filter((i) => i.severity === "error").map((i) => i.message).join("; ") };
+    if (!solution) {
+      return { ok: false as const, error: `The MRP has more than ${DIRECT_SOLVE_MAX_STATES} states; its equations are too many to write out.` };
+    }
+    return solution.ok ? { ok: true as const, model, V: solution.V } : solution;
+  }, [validation, solution]);
+
+  const file = useMemo<DerivationFile>(
+    () => ({ version: DERIVATION_FORMAT_VERSION, packId: pack.id, planIndex, tree, activeId, mrp }),
+    [pack, planIndex, tree, activeId, mrp]
+  );
+
+  // Keep the current state in the URL so that a refresh restores it; "Copy link" builds it on demand.
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      const { pathname, search } = window.location;
+      const hash = file.mrp.P.length > HASH_MAX_P_LENGTH ? "" : `#${encodeShareHash(file)}`;
+      window.history.replaceState(null, "", pathname + search + hash);
+    }, HASH_DELAY);
+    return () => clearTimeout(timer);
+  }, [file]);
+
+  const appendSteps = (newSteps: DerivationStep[]) => {
+    // New steps branch off the active step; later steps on other branches are kept.
+    let nextTree = tree;
+    let id = activeId;
+    for (const step of newSteps) ({ tree: nextTree, id } = addChild(nextTree, id, step));
+    setTree(nextTree);
+    setActiveId(id);
+    setLeafId(branchLeaf(nextTree, id));
+  };
+
+  const appendStep = (step: DerivationStep) => appendSteps([step]);
+
+  const record = (event: ExerciseEvent) => {
+    if (exercise) setEvents((prev) => [...prev, event]);
+  };
+
+  // Typing edits a draft of the active step; it becomes a step once committed, and is checked
+  // against the active step rather than against the half-typed text of the previous keystroke.
+  const commitEdit = () => {
+    if (!draft || draft.forId !== activeId) return;
+    setDraft(null);
+    if (outOfSteps || draft.latex === active.latex) return;
+    const step = manualEditStep(active.latex, draft.latex);
+    record({ kind: "manual", status: step.check?.status ?? "unverified" });
+    appendStep(step);
+  };
+
+  const onApplyRule = (ruleId: string) => {
+    const rule = ruleSet.find((r) => r.id === ruleId);
+    if (!rule || outOfSteps) return;
+    const attempt = tryApplyRule(active, rule, selected, ruleSet);
+    if (attempt.ok) {
+      appendStep(attempt.step);
+      record({ kind: "rule", ruleId });
+      setDiagnostic(null);
+      return;
+    }
+    record({ kind: "rule-failed", ruleId });
+    setDiagnostic({
+      forId: activeId,
+      failure: attempt.failure,
+      feedback: exercise ? failureFeedback(exercise, ruleSet, active, rule, attempt.failure.message) : undefined,
+    });
+  };
+
+  const selectStep = (id: string, preferredLeafId?: string) => {
+    setActiveId(id);
+    setLeafId(branchLeaf(tree, id, preferredLeafId ?? leafId));
+  };
+
+  const startOver = (start: DerivationStep) => {
+    setTree(createTree(start));
+    setActiveId("0");
+    setLeafId("0");
+    setIssues({});
+    setGuidance(null);
+    setDiagnostic(null);
+  };
+
+  const startExercise = (key: string) => {
+    const next = findExercise(key);
+    setExerciseKey(next ? key : "");
+    setEvents([]);
+    setSolved(null);
+    if (next) {
+      setPackId(next.packId);
+      setPlanIndex(0);
+      startOver(next.start);
+    } else {
+      startOver(plan.start);
+    }
+  };
+
+  const loadDerivation = ({ file: loaded, issues: loadedIssues }: ImportResult) => {
+    setPackId(loaded.packId);
+    setPlanIndex(loaded.planIndex);
+    setTree(loaded.tree);
+    setActiveId(loaded.activeId);
+    setLeafId(branchLeaf(loaded.tree, loaded.activeId));
+    setMrp(loaded.mrp);
+    setIssues(loadedIssues);
+    setLoadError(undefined);
+    setExerciseKey("");
+  };
+
+  const reset = () => (exercise ? startExercise(exerciseKey) : startOver(plan.start));
+
+  const selectDerivation = (nextPackId: string, nextPlanIndex: number) => {
+    const nextPack = rulePacks.find((p) => p.id === nextPackId) ?? rulePacks[0];
+    setExerciseKey("");
+    setPackId(nextPack.id);
+    setPlanIndex(nextPlanIndex);
+    startOver(nextPack.derivations[nextPlanIndex].start);
+  };
+
+  const noPathText = (result: Extract<SearchResult, { found: false }>) =>
+    result.exhausted
+      ? "No sequence of rules from this pack reaches the goal from here. Go back to an earlier step."
+      : "No derivation of the goal was found within the search limits. Try simplifying first or go back a step.";
+
+  const showHint = () => {
+    if (outOfHints) return;
+    record({ kind: "hint" });
+    const result = findDerivation(active, goal, ruleSet);
+    let text: string;
+    if (!result.found) text = noPathText(result);
+    else if (result.steps.length === 0) text = "This step already is the goal.";
+    else {
+      const remaining = result.steps.length;
+      text = `Next: ${result.steps[0].ruleName} (${remaining} step${remaining === 1 ? "" : "s"} to the goal).`;
     }
+    setGuidance({ forId: activeId, text });
   };
 
-  const reset = () => {
-    setSteps([START]);
-    setActiveIndex(0);
+  const solveFromHere = () => {
+    const result = findDerivation(active, goal, ruleSet);
+    if (!result.found) {
+      setGuidance({ forId: activeId, text: noPathText(result) });
+      return;
+    }
+    appendSteps(result.steps);
+    setGuidance(null);
   };
 
+  const suggestedPath = plan.suggestedPath.map((id) => pack.rules.find((r) => r.id === id)?.name ?? id);
+
   return (
     <div style={{ padding: 24, fontFamily: "sans-serif", maxWidth: 1200, margin: "0 auto" }}>
       <h1 style={{ marginTop: 0 }}>Bellman Derivation Playground (TypeScript)</h1>
 
+      <div style={{ display: "flex", gap: 12, alignItems: "baseline", flexWrap: "wrap", marginBottom: 16 }}>
+        <label style={{ fontSize: 14 }}>
+          Exercise{" "}
+          <select value={exerciseKey} onChange={(e) => startExercise(e.target.value)}>
+            <option value="">None (free derivation)</option>
+            {lessons.map((l) => (
+              <optgroup key={l.id} label={l.title}>
+                {l.exercises.map((ex) => (
+                  <option key={ex.id} value={`${l.id}/${ex.id}`}>
+                    {ex.title}
+                  </option>
+                ))}
+              </optgroup>
+            ))}
+          </select>
+        </label>
+        <label style={{ fontSize: 14 }}>
+          Rule pack{" "}
+          <select value={pack.id} onChange={(e) => selectDerivation(e.target.value, 0)}>
+            {rulePacks.map((p) => (
+              <option key={p.id} value={p.id}>
+                {p.name}
+              </option>
+            ))}
+          </select>
+        </label>
+        <RulePackLoader onLoad={(loaded) => selectDerivation(loaded.id, 0)} />
+        {!exercise && pack.derivations.length > 1 && (
+          <div style={{ display: "flex", gap: 8, alignItems: "baseline" }}>
+            <span style={{ fontSize: 14 }}>Start from</span>
+            {pack.derivations.map((d, idx) => (
+              <button
+                key={idx}
+                onClick={() => selectDerivation(pack.id, idx)}
+                style={{ background: idx === planIndex ? "rgba(0,0,0,0.06)" : "white" }}
+              >
+                <InlineMath math={canonicalizeLatex(d.start.latex)} />
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {Object.entries(bundledPackErrors).map(([file, text]) => (
+        <div key={file} style={{ marginBottom: 16, color: "#cf222e", fontSize: 14 }}>
+          Skipped the rule pack {file}:
+          <pre style={{ margin: "4px 0 0", whiteSpace: "pre-wrap" }}>{text}</pre>
+        </div>
+      ))}
+
+      {loadError && (
+        <div style={{ marginBottom: 16, color: "#cf222e", fontSize: 14 }}>Could not open the shared derivation: {loadError}</div>
+      )}
+
       <div style={{ display: "grid", gridTemplateColumns: "1.2fr 1fr", gap: 16 }}>
         <div style={{ display: "grid", gap: 16 }}>
-          <LatexRenderer value={active.latex} onChange={setActiveLatex} label="Current expression" />
+          {exercise && (
+            <ExercisePanel exercise={exercise} rules={ruleSet} score={score} solved={solved} onRestart={reset} />
+          )}
+          <LatexRenderer
+            value={draft?.forId === activeId ? draft.latex : active.latex}
+            onChange={(latex) => setDraft({ forId: activeId, latex })}
+            onCommit={commitEdit}
+            readOnly={outOfSteps}
+            onSelectSubexpression={select}
+            label="Current expression"
+          />
 
           <div style={{ display: "grid", gap: 10 }}>
             <div style={{ display: "flex", justifyContent: "space-between", alignItems: "baseline" }}>
               <h2 style={{ margin: 0, fontSize: 18 }}>Rendered (current)</h2>
               <div style={{ display: "flex", gap: 8, flexWrap: "wrap" }}>
+                {canGround && (
+                  <button onClick={() => setGroundedId(groundedId === activeId ? null : activeId)}>
+                    {groundedId === activeId ? "Hide grounding" : "Ground it"}
+                  </button>
+                )}
                 <button onClick={reset}>Reset</button>
-                <button onClick={() => setActiveIndex((i) => Math.max(0, i - 1))} disabled={activeIndex === 0}>
+                <button onClick={() => active.parentId !== null && selectStep(active.parentId)} disabled={active.parentId === null}>
                   Back
                 </button>
               </div>
             </div>
             <div style={{ padding: 12, border: "1px solid rgba(0,0,0,0.15)", borderRadius: 12 }}>
-              <BlockMath math={canonicalizeLatex(active.latex)} />
+              <HighlightedMath
+                latex={active.latex}
+                displayMode
+                selected={selected}
+                changed={selected ? [] : active.changed}
+                onSelect={select}
+              />
+            </div>
+            <div style={{ fontSize: 13, opacity: 0.8 }}>
+              {selectedLatex !== null ? (
+                <>
+                  Rules apply to the selection <InlineMath math={selectedLatex} /> only.{" "}
+                  <button onClick={() => select(null)}>Clear selection</button>
+                </>
+              ) : (
+                "Click part of the expression, or select it in the text box, to apply a rule to that part only."
+              )}
             </div>
           </div>
 
+          {canGround && groundedId === activeId && (
+            <div style={{ padding: 12, border: "1px solid rgba(0,0,0,0.15)", borderRadius: 12 }}>
+              <div style={{ fontSize: 14, opacity: 0.75, marginBottom: 6 }}>Grounded on the MRP</div>
+              {grounded.ok ? (
+                <GroundedEquations model={grounded.model} V={grounded.V} />
+              ) : (
+                <div style={{ color: "red", fontSize: 14 }}>Cannot ground the equation: {grounded.error}</div>
+              )}
+            </div>
+          )}
+
           <div style={{ padding: 12, border: "1px solid rgba(0,0,0,0.15)", borderRadius: 12 }}>
             <div style={{ fontSize: 14, opacity: 0.75, marginBottom: 6 }}>Explanation</div>
             <div style={{ fontSize: 14, lineHeight: 1.4 }}>
               <strong>{active.ruleName ?? "Step"}</strong>
               <div style={{ marginTop: 6 }}>{active.explanation ?? ""}</div>
+              {appliedTo !== null && (
+                <div style={{ marginTop: 6, fontSize: 13 }}>
+                  Applied to the selection <InlineMath math={appliedTo} /> only.
+                </div>
+              )}
+              {active.check && <StepCheckView check={active.check} />}
+              {issues[active.id] && (
+                <div style={{ marginTop: 8, fontSize: 13, color: "#cf222e" }}>⚠ Does not reproduce: {issues[active.id]}</div>
+              )}
             </div>
           </div>
+
+          <div style={{ padding: 12, border: "1px solid rgba(0,0,0,0.15)", borderRadius: 12 }}>
+            <div style={{ display: "flex", justifyContent: "space-between", alignItems: "baseline", gap: 8 }}>
+              <div style={{ fontSize: 14, opacity: 0.75 }}>Guidance</div>
+              <div style={{ display: "flex", gap: 8 }}>
+                <button onClick={showHint} disabled={outOfHints}>
+                  Show hint
+                </button>
+                {!exercise && <button onClick={solveFromHere}>Solve from here</button>}
+              </div>
+            </div>
+            <div style={{ marginTop: 6, fontSize: 13, opacity: 0.8 }}>
+              Goal: <InlineMath math={canonicalizeLatex(goal)} />
+            </div>
+            {guidance?.forId === activeId && <div style={{ marginTop: 6, fontSize: 14 }}>{guidance.text}</div>}
+          </div>
+
+          <RuleDiagnostics
+            failure={diagnostic?.forId === activeId ? diagnostic.failure : null}
+            feedback={diagnostic?.forId === activeId ? diagnostic.feedback : undefined}
+            nearMisses={almost}
+            errors={brokenRules}
+            onDismiss={() => setDiagnostic(null)}
+          />
         </div>
 
         <div style={{ display: "grid", gap: 16 }}>
           <div style={{ padding: 12, border: "1px solid rgba(0,0,0,0.15)", borderRadius: 12 }}>
-            <h2 style={{ margin: 0, fontSize: 18 }}>Applicable rules</h2>
+            <h2 style={{ margin: 0, fontSize: 18 }}>
+              {exercise ? "Allowed rules" : selected ? "Rules applicable to the selection" : "Applicable rules"}
+            </h2>
+            {exercise && (
+              <div style={{ marginTop: 4, fontSize: 12, opacity: 0.75 }}>
+                Pick the rule that comes next; rules that do not apply count as failed attempts. A typed edit is scored
+                once it is committed with Enter.
+              </div>
+            )}
             <div style={{ marginTop: 10, display: "grid", gap: 8 }}>
-              {rules.length === 0 ? (
+              {offered.length === 0 ? (
                 <div style={{ fontSize: 13, opacity: 0.7 }}>
-                  No rules match this expression. Try typing a step that matches the lecture form, e.g.{" "}
+                  No rules match {selected ? "the selection" : "this expression"}. Try typing a step that matches the lecture form, e.g.{" "}
                   <InlineMath math={canonicalizeLatex("\\mathbb{E}[G_t\\mid S_t=s]")} />.
                 </div>
               ) : (
-                rules.map((r) => (
+                offered.map((r) => (
                   <button
                     key={r.id}
                     onClick={() => onApplyRule(r.id)}
+                    disabled={outOfSteps}
                     style={{
                       textAlign: "left",
                       padding: 10,
@@ -130,43 +533,57 @@ export default function App() {
                 ))
               )}
             </div>
+            {!exercise && blocked.length > 0 && (
+              <div style={{ marginTop: 12, display: "grid", gap: 8 }}>
+                <div style={{ fontSize: 13, opacity: 0.75 }}>Matches, but a side condition fails</div>
+                {blocked.map(({ rule, reasons }) => (
+                  <button
+                    key={rule.id}
+                    onClick={() => onApplyRule(rule.id)}
+                    style={{
+                      textAlign: "left",
+                      padding: 10,
+                      borderRadius: 12,
+                      border: "1px dashed rgba(0,0,0,0.25)",
+                      background: "white",
+                      cursor: "pointer",
+                      opacity: 0.75,
+                    }}
+                  >
+                    <div style={{ fontWeight: 700, fontSize: 13 }}>{rule.name}</div>
+                    <div style={{ fontSize: 12, marginTop: 4 }}>{reasons.join(" ")}</div>
+                  </button>
+                ))}
+              </div>
+            )}
           </div>
 
-          <div style={{ padding: 12, border: "1px solid rgba(0,0,0,0.15)", borderRadius: 12 }}>
-            <h2 style={{ margin: 0, fontSize: 18 }}>Step history</h2>
-            <div style={{ marginTop: 10, display: "grid", gap: 8, maxHeight: 520, overflow: "auto" }}>
-              {steps.map((st, idx) => (
-                <button
-                  key={idx}
-                  onClick={() => setActiveIndex(idx)}
-                  style={{
-                    textAlign: "left",
-                    padding: 10,
-                    borderRadius: 12,
-                    border: "1px solid rgba(0,0,0,0.15)",
-                    background: idx === activeIndex ? "rgba(0,0,0,0.06)" : "white",
-                    cursor: "pointer",
-                  }}
-                >
-                  <div style={{ display: "flex", justifyContent: "space-between", gap: 8 }}>
-                    <span style={{ fontSize: 12, opacity: 0.7 }}>Step {idx}</span>
-                    <span style={{ fontSize: 12, opacity: 0.7 }}>{st.ruleId ?? ""}</span>
-                  </div>
-                  <div style={{ marginTop: 6, overflowX: "auto" }}>
-                    <InlineMath math={canonicalizeLatex(st.latex)} />
-                  </div>
-                </button>
-              ))}
-            </div>
-          </div>
+          <BranchExplorer
+            tree={tree}
+            activeId={activeId}
+            leafId={leafId}
+            onSelectStep={selectStep}
+            onSelectBranch={(id) => selectStep(id, id)}
+            onMarkMain={(id) => setTree((prev) => setMainBranch(prev, id))}
+            issues={issues}
+          />
+
+          <SaveShareCard file={file} branch={pathTo(tree, leafId)} pack={pack} onImport={loadDerivation} />
         </div>
       </div>
 
-      <div style={{ marginTop: 16, fontSize: 13, opacity: 0.75 }}>
-        Suggested path: v(s) → Definition of value → Expand return → Unroll return → Linearity → Define r(s) → Total
-        expectation → Substitute value → Assemble Bellman.
+      {!exercise && (
+        <div style={{ marginTop: 16, fontSize: 13, opacity: 0.75 }}>
+          Suggested path: <InlineMath math={canonicalizeLatex(plan.start.latex)} /> → {suggestedPath.join(" → ")}.
+        </div>
+      )}
+      <div style={{ marginTop: 16 }}>
+        <MrpLibrary value={mrp} onChange={setMrp} />
+      </div>
+      <div style={{ marginTop: 16, display: "grid", gridTemplateColumns: "minmax(0, 3fr) minmax(0, 2fr)", gap: 16, alignItems: "start" }}>
+        <LinearAlgebraPanel value={mrp} onChange={setMrp} validation={validation} solution={solution} />
+        <StateGraph value={mrp} onChange={setMrp} V={solution?.ok ? solution.V : null} />
       </div>
-      <LinearAlgebraPanel />
     </div>
     
   );
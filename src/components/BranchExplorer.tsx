@@ -0,0 +1,179 @@
+import React, { useState } from "react";
+import type { DerivationNode, DerivationTree } from "../types";
+import { childrenOf, leaves, mainLeaf, pathTo, sharedPrefixLength } from "../derivationTree";
+import HighlightedMath from "./HighlightedMath";
+import { StepCheckBadge } from "./StepCheckView";
+
+export type BranchExplorerProps = {
+  tree: DerivationTree;
+  activeId: string;
+  /** Leaf of the branch currently shown in the history */
+  leafId: string;
+  /** Select a step; `branchLeafId` says which branch to show when the step is shared */
+  onSelectStep: (id: string, branchLeafId?: string) => void;
+  onSelectBranch: (leafId: string) => void;
+  onMarkMain: (leafId: string) => void;
+  /** Step id → why an imported step no longer reproduces */
+  issues?: Record<string, string>;
+};
+
+const card: React.CSSProperties = {
+  textAlign: "left",
+  padding: 10,
+  borderRadius: 12,
+  border: "1px solid rgba(0,0,0,0.15)",
+  background: "white",
+};
+
+function StepCard({
+  step,
+  index,
+  active,
+  dimmed,
+  alternatives,
+  issue,
+  onClick,
+}: {
+  step: DerivationNode;
+  index: number;
+  active?: boolean;
+  dimmed?: boolean;
+  alternatives?: number;
+  issue?: string;
+  onClick?: () => void;
+}) {
+  return (
+    <button
+      onClick={onClick}
+      style={{
+        ...card,
+        background: active ? "rgba(0,0,0,0.06)" : "white",
+        cursor: onClick ? "pointer" : "default",
+        opacity: dimmed ? 0.5 : 1,
+      }}
+    >
+      <div style={{ display: "flex", justifyContent: "space-between", gap: 8 }}>
+        <span style={{ fontSize: 12, opacity: 0.7 }}>
+          Step {index}
+          {alternatives ? ` · ${alternatives} alternative${alternatives > 1 ? "s" : ""} from here` : ""}
+        </span>
+        <span style={{ fontSize: 12, opacity: 0.7 }}>
+          {step.check ? <StepCheckBadge check={step.check} /> : step.ruleId ?? ""}
+          {step.at ? " · on a selection" : ""}
+        </span>
+      </div>
+      <div style={{ marginTop: 6, overflowX: "auto" }}>
+        <HighlightedMath latex={step.latex} changed={step.changed} />
+      </div>
+      {issue && (
+        <div title={issue} style={{ marginTop: 4, fontSize: 12, color: "#cf222e" }}>
+          ⚠ does not reproduce
+        </div>
+      )}
+    </button>
+  );
+}
+
+export function BranchExplorer({
+  tree,
+  activeId,
+  leafId,
+  onSelectStep,
+  onSelectBranch,
+  onMarkMain,
+  issues = {},
+}: BranchExplorerProps) {
+  const [compare, setCompare] = useState<string[]>([]);
+
+  const branches = leaves(tree);
+  const main = mainLeaf(tree);
+  const path = pathTo(tree, leafId);
+  const branchLabel = (id: string) => `Branch ${branches.findIndex((b) => b.id === id) + 1}`;
+
+  const toggleCompare = (id: string) =>
+    setCompare((prev) => (prev.includes(id) ? prev.filter((x) => x !== id) : [...prev, id].slice(-2)));
+
+  const comparing = compare.filter((id) => branches.some((b) => b.id === id));
+  const [left, right] = comparing.map((id) => pathTo(tree, id));
+  const shared = left && right ? sharedPrefixLength(left, right) : 0;
+
+  return (
+    <div style={{ padding: 12, border: "1px solid rgba(0,0,0,0.15)", borderRadius: 12 }}>
+      <h2 style={{ margin: 0, fontSize: 18 }}>Step history</h2>
+
+      {branches.length > 1 && (
+        <div style={{ marginTop: 10, display: "grid", gap: 6 }}>
+          <div style={{ fontSize: 13, opacity: 0.75 }}>Branches</div>
+          {branches.map((b) => {
+            const length = pathTo(tree, b.id).length - 1;
+            return (
+              <div key={b.id} style={{ display: "flex", alignItems: "center", gap: 8, fontSize: 13 }}>
+                <button
+                  onClick={() => onSelectBranch(b.id)}
+                  style={{ ...card, padding: "4px 8px", background: b.id === leafId ? "rgba(0,0,0,0.06)" : "white" }}
+                >
+                  {b.id === main.id ? "★ " : ""}
+                  {branchLabel(b.id)} · {length} step{length === 1 ? "" : "s"}
+                </button>
+                <label style={{ fontSize: 12 }}>
+                  <input type="checkbox" checked={comparing.includes(b.id)} onChange={() => toggleCompare(b.id)} /> compare
+                </label>
+                {b.id !== main.id && (
+                  <button onClick={() => onMarkMain(b.id)} style={{ fontSize: 12 }}>
+                    Mark as main proof
+                  </button>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {left && right ? (
+        <div style={{ marginTop: 10 }}>
+          <div style={{ display: "flex", justifyContent: "space-between", fontSize: 13, opacity: 0.75 }}>
+            <span>
+              Comparing {branchLabel(comparing[0])} and {branchLabel(comparing[1])}; the first {shared} step
+              {shared === 1 ? " is" : "s are"} shared.
+            </span>
+            <button onClick={() => setCompare([])} style={{ fontSize: 12 }}>
+              Close
+            </button>
+          </div>
+          <div style={{ marginTop: 8, display: "grid", gridTemplateColumns: "1fr 1fr", gap: 8 }}>
+            {[left, right].map((branch, col) => (
+              <div key={col} style={{ display: "grid", gap: 8, alignContent: "start", maxHeight: 520, overflow: "auto" }}>
+                {branch.map((st, idx) => (
+                  <StepCard
+                    key={st.id}
+                    step={st}
+                    index={idx}
+                    dimmed={idx < shared}
+                    issue={issues[st.id]}
+                    onClick={() => onSelectStep(st.id, comparing[col])}
+                  />
+                ))}
+              </div>
+            ))}
+          </div>
+        </div>
+      ) : (
+        <div style={{ marginTop: 10, display: "grid", gap: 8, maxHeight: 520, overflow: "auto" }}>
+          {path.map((st, idx) => (
+            <StepCard
+              key={st.id}
+              step={st}
+              index={idx}
+              active={st.id === activeId}
+              alternatives={childrenOf(tree, st.id).length - 1}
+              issue={issues[st.id]}
+              onClick={() => onSelectStep(st.id)}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default BranchExplorer;
@@ -0,0 +1,158 @@
+import React, { useMemo, useState } from "react";
+import { InlineMath } from "react-katex";
+import ErrorPlot from "./ErrorPlot";
+import { evaluateIteratively, supNormDistance, type IterativeMethod, type Mat, type Vec } from "../utils/matrix";
+
+export type ConvergenceTraceProps = {
+  P: Mat;
+  R: Vec;
+  gamma: number;
+  /** Direct solution to measure the error against, if the system could be solved */
+  exact: Vec | null;
+};
+
+const METHODS: { id: IterativeMethod; label: string }[] = [
+  { id: "backup", label: "Synchronous Bellman backup" },
+  { id: "jacobi", label: "Jacobi" },
+  { id: "gauss-seidel", label: "Gauss–Seidel" },
+];
+
+/** Errors below this are round-off and say nothing about the rate. */
+const NOISE = 1e-12;
+
+/** Every iterate is kept for the table and the plot, so runs are capped. */
+const MAX_ITERATIONS = 10000;
+
+/** Show the first and last iterations of long runs. */
+const HEAD_ROWS = 25;
+const TAIL_ROWS = 10;
+
+/** Geometric mean of the last few error ratios e_k / e_{k-1}. */
+function observedRate(errors: number[]): number | null {
+  const ratios: number[] = [];
+  for (let k = 1; k < errors.length; k++) {
+    if (errors[k - 1] > NOISE && errors[k] > NOISE) ratios.push(errors[k] / errors[k - 1]);
+  }
+  const last = ratios.slice(-5);
+  if (last.length === 0) return null;
+  return Math.exp(last.reduce((acc, r) => acc + Math.log(r), 0) / last.length);
+}
+
+export function ConvergenceTrace({ P, R, gamma, exact }: ConvergenceTraceProps) {
+  const [method, setMethod] = useState<IterativeMethod>("backup");
+  const [tolerance, setTolerance] = useState("1e-8");
+  const [maxIterations, setMaxIterations] = useState("200");
+
+  const run = useMemo(() => {
+    try {
+      const limit = Math.floor(Number(maxIterations));
+      if (!(limit >= 1 && limit <= MAX_ITERATIONS)) {
+        throw new Error(`Max iterations must be a whole number from 1 to ${MAX_ITERATIONS}`);
+      }
+      if (!(Number(tolerance) > 0)) throw new Error("The tolerance must be a positive number");
+      const trace = evaluateIteratively(P, R, gamma, method, { tolerance: Number(tolerance), maxIterations: limit });
+      const errors = exact ? trace.iterates.map((V) => supNormDistance(V, exact)) : null;
+      return { ok: true as const, trace, errors, rate: errors && observedRate(errors) };
+    } catch (e) {
+      return { ok: false as const, error: e instanceof Error ? e.message : String(e) };
+    }
+  }, [P, R, gamma, exact, method, tolerance, maxIterations]);
+
+  const rows = (iterates: Vec[]) =>
+    iterates.length <= HEAD_ROWS + TAIL_ROWS
+      ? iterates.map((V, k) => ({ V, k }))
+      : [
+          ...iterates.slice(0, HEAD_ROWS).map((V, k) => ({ V, k })),
+          null,
+          ...iterates.slice(-TAIL_ROWS).map((V, i) => ({ V, k: iterates.length - TAIL_ROWS + i })),
+        ];
+
+  return (
+    <div style={{ marginTop: 12 }}>
+      <h3 style={{ margin: "0 0 8px", fontSize: 16 }}>Iterative policy evaluation</h3>
+      <div style={{ display: "flex", gap: 12, flexWrap: "wrap", alignItems: "baseline", fontSize: 14 }}>
+        <label>
+          Method{" "}
+          <select value={method} onChange={(e) => setMethod(e.target.value as IterativeMethod)}>
+            {METHODS.map((m) => (
+              <option key={m.id} value={m.id}>
+                {m.label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label>
+          Tolerance <input value={tolerance} onChange={(e) => setTolerance(e.target.value)} size={8} />
+        </label>
+        <label>
+          Max iterations <input value={maxIterations} onChange={(e) => setMaxIterations(e.target.value)} size={5} />
+        </label>
+      </div>
+
+      {run.ok ? (
+        <div style={{ marginTop: 8, display: "grid", gap: 8 }}>
+          <div style={{ fontSize: 14 }}>
+            {run.trace.converged
+              ? `Converged after ${run.trace.iterates.length - 1} iterations.`
+              : `Stopped after ${run.trace.iterates.length - 1} iterations without reaching the tolerance.`}{" "}
+            {run.rate !== null && run.rate !== undefined && (
+              <>
+                Observed contraction rate <InlineMath math={`\\approx ${run.rate.toFixed(4)}`} /> vs{" "}
+                <InlineMath math={`\\gamma = ${gamma}`} />.
+              </>
+            )}
+          </div>
+          {run.errors && <ErrorPlot points={run.errors.map((error, k) => ({ x: k, error }))} xLabel="k" floor={NOISE} />}
+          <div style={{ maxHeight: 320, overflow: "auto" }}>
+            <table style={{ borderCollapse: "collapse", fontSize: 12, fontFamily: "monospace" }}>
+              <thead>
+                <tr>
+                  <th style={{ textAlign: "right", padding: "2px 8px" }}>k</th>
+                  {R.map((_, i) => (
+                    <th key={i} style={{ textAlign: "right", padding: "2px 8px" }}>
+                      V_k[{i + 1}]
+                    </th>
+                  ))}
+                  {run.errors && <th style={{ textAlign: "right", padding: "2px 8px" }}>‖V_k − V‖∞</th>}
+                  {run.errors && <th style={{ textAlign: "right", padding: "2px 8px" }}>ratio</th>}
+                </tr>
+              </thead>
+              <tbody>
+                {rows(run.trace.iterates).map((row, idx) =>
+                  row === null ? (
+                    <tr key={`gap-${idx}`}>
+                      <td style={{ textAlign: "right", padding: "2px 8px" }}>⋮</td>
+                    </tr>
+                  ) : (
+                    <tr key={row.k}>
+                      <td style={{ textAlign: "right", padding: "2px 8px" }}>{row.k}</td>
+                      {row.V.map((v, i) => (
+                        <td key={i} style={{ textAlign: "right", padding: "2px 8px" }}>
+                          {v.toFixed(6)}
+                        </td>
+                      ))}
+                      {run.errors && (
+                        <td style={{ textAlign: "right", padding: "2px 8px" }}>{run.errors[row.k].toExponential(2)}</td>
+                      )}
+                      {run.errors && (
+                        <td style={{ textAlign: "right", padding: "2px 8px" }}>
+                          {row.k > 0 && run.errors[row.k - 1] > NOISE
+                            ? (run.errors[row.k] / run.errors[row.k - 1]).toFixed(4)
+                            : ""}
+                        </td>
+                      )}
+                    </tr>
+                  )
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      ) : (
+        <div style={{ color: "red" }}>{run.error}</div>
+      )}
+    </div>
+  );
+}
+
+export default ConvergenceTrace;
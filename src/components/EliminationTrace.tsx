@@ -0,0 +1,139 @@
+import React, { useMemo, useState } from "react";
+import { BlockMath, InlineMath } from "react-katex";
+import { exactMrpSystem, mrpSystem, type MrpModel, type MrpSystem } from "../mrp";
+import { solveLinearSystem, type Augmented, type EliminationStep } from "../utils/matrix";
+import { ratToLatex, solveRationalSystem } from "../utils/rational";
+import { textLatex } from "../utils/latex";
+
+export type EliminationTraceProps = {
+  model: MrpModel;
+  /** Work in fractions rather than floating point */
+  exact: boolean;
+};
+
+/** Beyond this the matrices no longer fit and the steps stop being instructive. */
+const MAX_STATES = 6;
+
+const decimal = (x: number) => String(Number(x.toPrecision(4)));
+
+const CHANGED_COLOR = "royalblue";
+
+const paren = (latex: string) => (latex.startsWith("-") ? `\\left(${latex}\\right)` : latex);
+
+/** [A | b] as LaTeX, with the rows in `changed` coloured. */
+function augmentedLatex({ A, b }: Augmented<string>, changed: number[]): string {
+  const n = A.length;
+  const rows = A.map((row, i) => {
+    const cells = [...row, b[i]];
+    return changed.includes(i) ? cells.map((c) => `\\textcolor{${CHANGED_COLOR}}{${c}}`).join(" & ") : cells.join(" & ");
+  });
+  return `\\left[\\begin{array}{${"c".repeat(n)}|c} ${rows.join(" \\\\ ")} \\end{array}\\right]`;
+}
+
+type RowOperation = Exclude<EliminationStep<string>, { kind: "back-substitute" }>;
+
+function formatAugmented<T>({ A, b }: Augmented<T>, fmt: (x: T) => string): Augmented<string> {
+  return { A: A.map((row) => row.map(fmt)), b: b.map(fmt) };
+}
+
+function formatStep<T>(step: EliminationStep<T>, fmt: (x: T) => string): EliminationStep<string> {
+  const matrix = formatAugmented(step, fmt);
+  switch (step.kind) {
+    case "eliminate":
+      return { ...step, ...matrix, factor: fmt(step.factor) };
+    case "back-substitute":
+      return { ...step, ...matrix, value: fmt(step.value) };
+    default:
+      return { ...step, ...matrix };
+  }
+}
+
+function traced<T>(system: MrpSystem<T>, solve: (s: MrpSystem<T>) => EliminationStep<T>[], fmt: (x: T) => string) {
+  return { states: system.states, start: formatAugmented(system, fmt), trace: solve(system).map((s) => formatStep(s, fmt)) };
+}
+
+/**
+ * Gaussian elimination on (I - γP)V = R, one card per row operation, in the
+ * manner of the derivation step history: the augmented matrix after each
+ * step with the rows it changed highlighted, then back-substitution.
+ */
+export function EliminationTrace({ model, exact }: EliminationTraceProps) {
+  const [open, setOpen] = useState(false);
+
+  const run = useMemo(() => {
+    if (!open) return null;
+    try {
+      const result = exact
+        ? traced(exactMrpSystem(model), ({ A, b }) => solveRationalSystem(A, b, { trace: true }).trace, ratToLatex)
+        : traced(mrpSystem(model), ({ A, b }) => solveLinearSystem(A, b, { trace: true }).trace, decimal);
+      return { ok: true as const, ...result };
+    } catch (e) {
+      return { ok: false as const, error: e instanceof Error ? e.message : String(e) };
+    }
+  }, [open, model, exact]);
+
+  const unknown = (k: number, states: number[]) => `V(${textLatex(model.states[states[k]])})`;
+
+  const annotation = (step: RowOperation, states: number[]): string => {
+    switch (step.kind) {
+      case "pivot":
+        return `\\text{pivot for } ${unknown(step.col, states)} \\text{: } R_{${step.row + 1}}`;
+      case "swap":
+        return `R_{${step.rows[0] + 1}} \\leftrightarrow R_{${step.rows[1] + 1}}`;
+      case "eliminate":
+        return `R_{${step.row + 1}} \\leftarrow R_{${step.row + 1}} - ${paren(step.factor)}\\, R_{${step.pivotRow + 1}}`;
+    }
+  };
+
+  /** The equation of row r solved for its unknown, with the values found before it. */
+  const backSubstitution = (step: Extract<EliminationStep<string>, { kind: "back-substitute" }>, states: number[], x: string[]) => {
+    const r = step.row;
+    const terms = step.A[r].map((a, c) => (c > r && a !== "0" ? ` - ${paren(a)} \\cdot ${paren(x[c])}` : "")).join("");
+    return `${unknown(r, states)} = \\frac{${step.b[r]}${terms}}{${step.A[r][r]}} = ${step.value}`;
+  };
+
+  const card = (index: number, label: React.ReactNode, math: string) => (
+    <div key={index} style={{ padding: 10, borderRadius: 12, border: "1px solid rgba(0,0,0,0.15)" }}>
+      <div style={{ display: "flex", justifyContent: "space-between", gap: 8, fontSize: 12, opacity: 0.7 }}>
+        <span>Step {index}</span>
+        <span>{label}</span>
+      </div>
+      <div style={{ marginTop: 6, overflowX: "auto" }}>
+        <BlockMath math={math} />
+      </div>
+    </div>
+  );
+
+  const n = model.states.length;
+  const x: string[] = [];
+  if (run?.ok) for (const s of run.trace) if (s.kind === "back-substitute") x[s.row] = s.value;
+  return (
+    <div style={{ marginTop: 12 }}>
+      <div style={{ display: "flex", gap: 12, alignItems: "baseline" }}>
+        <h3 style={{ margin: "0 0 8px", fontSize: 16 }}>Gaussian elimination</h3>
+        <button onClick={() => setOpen(!open)}>{open ? "Hide steps" : "Show steps"}</button>
+      </div>
+      {open && n > MAX_STATES && (
+        <div style={{ fontSize: 13, opacity: 0.75 }}>The steps are shown for MRPs with at most {MAX_STATES} states.</div>
+      )}
+      {open && run && n <= MAX_STATES && !run.ok && <div style={{ color: "red", fontSize: 13 }}>{run.error}</div>}
+      {open && run?.ok && n <= MAX_STATES && (
+        <div style={{ display: "grid", gap: 8 }}>
+          <div style={{ fontSize: 13 }}>
+            Unknowns, in column order:{" "}
+            <InlineMath math={run.states.map((_, k) => unknown(k, run.states)).join(",\\ ")} />
+            {run.states.length < n && " (terminal states are fixed at 0 and left out)"}
+          </div>
+          {card(0, <InlineMath math={"[\\, I - \\gamma P \\mid R \\,]"} />, augmentedLatex(run.start, []))}
+          {run.trace.map((step, i) => {
+            if (step.kind === "back-substitute") return card(i + 1, "back-substitution", backSubstitution(step, run.states, x));
+            const changed = step.kind === "swap" ? step.rows : [step.row];
+            return card(i + 1, <InlineMath math={annotation(step, run.states)} />, augmentedLatex(step, changed));
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default EliminationTrace;
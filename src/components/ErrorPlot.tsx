@@ -0,0 +1,44 @@
+import React from "react";
+
+export type ErrorPlotProps = {
+  /** Errors at increasing x, plotted on a log scale */
+  points: { x: number; error: number }[];
+  /** Name of the x axis, shown with the last x value */
+  xLabel: string;
+  /** Errors are clamped to this floor before taking logs */
+  floor?: number;
+};
+
+/** A small log-scale error curve. */
+export function ErrorPlot({ points, xLabel, floor = 1e-12 }: ErrorPlotProps) {
+  const width = 360;
+  const height = 140;
+  const logs = points.map((p) => Math.log10(Math.max(p.error, floor)));
+  const lo = Math.min(...logs);
+  const hi = Math.max(...logs, lo + 1);
+  const first = points[0]?.x ?? 0;
+  const last = points[points.length - 1]?.x ?? 1;
+  const x = (v: number) => 30 + ((v - first) / Math.max(1e-9, last - first)) * (width - 40);
+  const y = (l: number) => 10 + ((hi - l) / (hi - lo)) * (height - 30);
+  return (
+    <svg width={width} height={height} style={{ background: "white", border: "1px solid rgba(0,0,0,0.1)", borderRadius: 8 }}>
+      <polyline
+        fill="none"
+        stroke="#0969da"
+        strokeWidth={1.5}
+        points={logs.map((l, i) => `${x(points[i].x)},${y(l)}`).join(" ")}
+      />
+      <text x={4} y={y(hi) + 4} fontSize={10}>
+        1e{Math.round(hi)}
+      </text>
+      <text x={4} y={y(lo)} fontSize={10}>
+        1e{Math.round(lo)}
+      </text>
+      <text x={width - 90} y={height - 4} fontSize={10}>
+        {xLabel} = {last}
+      </text>
+    </svg>
+  );
+}
+
+export default ErrorPlot;
@@ -0,0 +1,78 @@
+import React from "react";
+import { InlineMath } from "react-katex";
+import type { Exercise, RewriteRule } from "../types";
+import { PENALTIES, type ExerciseScore } from "../exercise";
+import { canonicalizeLatex } from "../utils/latex";
+
+export type ExercisePanelProps = {
+  exercise: Exercise;
+  rules: RewriteRule[];
+  /** Score so far on the current branch */
+  score: ExerciseScore;
+  /** Score frozen when the target was first reached */
+  solved: ExerciseScore | null;
+  onRestart: () => void;
+};
+
+const limit = (used: number, max: number | undefined) => (max === undefined ? String(used) : `${used} / ${max}`);
+
+export function ExercisePanel({ exercise, rules, score, solved, onRestart }: ExercisePanelProps) {
+  const shown = solved ?? score;
+  return (
+    <div style={{ padding: 12, border: "1px solid rgba(0,0,0,0.15)", borderRadius: 12 }}>
+      <div style={{ display: "flex", justifyContent: "space-between", alignItems: "baseline", gap: 8 }}>
+        <div style={{ fontSize: 14, opacity: 0.75 }}>Exercise: {exercise.title}</div>
+        <button onClick={onRestart}>Restart exercise</button>
+      </div>
+      <div style={{ marginTop: 6, fontSize: 14 }}>{exercise.prompt}</div>
+      <div style={{ marginTop: 6, fontSize: 13 }}>
+        Target: <InlineMath math={canonicalizeLatex(exercise.target)} />
+      </div>
+      <div style={{ marginTop: 6, fontSize: 12, opacity: 0.75 }}>Allowed rules: {rules.map((r) => r.name).join(", ")}</div>
+
+      {solved && (
+        <div style={{ marginTop: 8, fontSize: 14, fontWeight: 700, color: "#1a7f37" }}>
+          ✓ Solved in {solved.steps} step{solved.steps === 1 ? "" : "s"}.
+        </div>
+      )}
+      {!solved && exercise.maxSteps !== undefined && score.steps >= exercise.maxSteps && (
+        <div style={{ marginTop: 8, fontSize: 13, color: "#cf222e" }}>
+          Step limit reached without arriving at the target. Go back to an earlier step and try a shorter route.
+        </div>
+      )}
+
+      <table style={{ marginTop: 8, borderCollapse: "collapse", fontSize: 13 }}>
+        <tbody>
+          <tr>
+            <td style={{ paddingRight: 12 }}>Steps</td>
+            <td>{limit(shown.steps, exercise.maxSteps)}</td>
+          </tr>
+          <tr>
+            <td style={{ paddingRight: 12 }}>Hints used</td>
+            <td>
+              {limit(shown.hints, exercise.maxHints)} (−{PENALTIES.hint} each)
+            </td>
+          </tr>
+          <tr>
+            <td style={{ paddingRight: 12 }}>Failed attempts</td>
+            <td>
+              {shown.failedAttempts} (−{PENALTIES.failedAttempt} each)
+            </td>
+          </tr>
+          <tr>
+            <td style={{ paddingRight: 12 }}>Unverified edits</td>
+            <td>
+              {shown.unverifiedEdits} (−{PENALTIES.unverifiedEdit} each)
+            </td>
+          </tr>
+          <tr>
+            <td style={{ paddingRight: 12, fontWeight: 700 }}>Score</td>
+            <td style={{ fontWeight: 700 }}>{shown.score} / 100</td>
+          </tr>
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+export default ExercisePanel;
@@ -0,0 +1,34 @@
+import React from "react";
+import { BlockMath } from "react-katex";
+import type { MrpModel } from "../mrp";
+import { groundBellman } from "../grounding";
+import type { Vec } from "../utils/matrix";
+
+export type GroundedEquationsProps = {
+  model: MrpModel;
+  V: Vec;
+};
+
+/** The derived Bellman equation instantiated on the MRP from the linear algebra panel. */
+export function GroundedEquations({ model, V }: GroundedEquationsProps) {
+  const grounding = groundBellman(model, V);
+  return (
+    <div style={{ display: "grid", gap: 8, fontSize: 14 }}>
+      <div>One equation per state, with P, R and γ from the linear algebra panel:</div>
+      {grounding.states.map((s) => (
+        <BlockMath key={s.state} math={s.equation} />
+      ))}
+      <div>Collected into matrix form, this is the linear system the panel solves:</div>
+      <BlockMath math={grounding.matrixForm} />
+      <div>Plugging in the solved V, each equation balances:</div>
+      {grounding.states.map((s) => {
+        const balances = Math.abs(s.lhs - s.rhs) < 1e-9 * Math.max(1, Math.abs(s.lhs));
+        return <BlockMath key={s.state} math={`${s.check}\\;${balances ? "\\checkmark" : "\\times"}`} />;
+      })}
+      <BlockMath math={grounding.solvedMatrixForm} />
+      <div style={{ fontSize: 13, opacity: 0.75 }}>Largest residual: {grounding.residual.toExponential(2)}</div>
+    </div>
+  );
+}
+
+export default GroundedEquations;
@@ -0,0 +1,79 @@
+import React, { useMemo } from "react";
+import katex from "katex";
+import type { ExprPath } from "../types";
+import { canonicalizeLatex } from "../utils/latex";
+import { parseLatex } from "../utils/latexParser";
+import { serializeLatex } from "../utils/latexSerializer";
+import { parsePathKey, pathKey, samePath } from "../utils/exprPath";
+
+export type HighlightedMathProps = {
+  latex: string;
+  displayMode?: boolean;
+  /** Subexpression shown as selected */
+  selected?: ExprPath | null;
+  /** Subexpressions shown as just rewritten */
+  changed?: ExprPath[];
+  /** Makes every subexpression clickable; called with null for a click outside all of them */
+  onSelect?: (path: ExprPath | null) => void;
+};
+
+const SELECTED_STYLE = "background-color: rgba(9, 105, 218, 0.18); border-radius: 3px";
+const CHANGED_STYLE = "background-color: rgba(255, 212, 59, 0.45); border-radius: 3px";
+
+// Only the commands added below are trusted, never ones typed by the user.
+const TRUSTED = new Set(["\\htmlData", "\\htmlStyle"]);
+
+const style = (css: string, latex: string) => `\\htmlStyle{${css}}{${latex}}`;
+
+/**
+ * KaTeX rendering that can mark subexpressions, located by their path in the
+ * parsed expression. Without selection or highlights this is plain KaTeX of
+ * the LaTeX as typed; otherwise the expression is re-serialized with markup.
+ */
+export function HighlightedMath({ latex, displayMode = false, selected = null, changed = [], onSelect }: HighlightedMathProps) {
+  const selectable = onSelect !== undefined;
+  const selectedKey = selected ? pathKey(selected) : null;
+  const changedKeys = changed.map(pathKey).join("|");
+
+  const html = useMemo(() => {
+    const plain = canonicalizeLatex(latex);
+    let source = plain;
+    if (selectable || selectedKey !== null || changed.length > 0) {
+      try {
+        const mark = (s: string, path: ExprPath) => {
+          let out = selectable ? `\\htmlData{path=${pathKey(path)}}{${s}}` : s;
+          if (selected && samePath(path, selected)) out = style(SELECTED_STYLE, out);
+          else if (changed.some((c) => samePath(c, path))) out = style(CHANGED_STYLE, out);
+          return out;
+        };
+        source = serializeLatex(parseLatex(latex), mark);
+        if (changed.some((c) => c.length === 0)) source = style(CHANGED_STYLE, source);
+      } catch {
+        // Unparsable input is shown as typed, without markup.
+      }
+    }
+    try {
+      return katex.renderToString(source, { displayMode, trust: (ctx) => TRUSTED.has(ctx.command), strict: false });
+    } catch {
+      return katex.renderToString(plain, { displayMode, throwOnError: false });
+    }
+    // `selected` and `changed` are compared by their keys, not identity.
+  }, [latex, displayMode, selectable, selectedKey, changedKeys]);
+
+  const onClick = (e: React.MouseEvent<HTMLElement>) => {
+    if (!onSelect) return;
+    const target = (e.target as HTMLElement).closest("[data-path]");
+    onSelect(target && e.currentTarget.contains(target) ? parsePathKey(target.getAttribute("data-path") ?? "") : null);
+  };
+
+  const Tag = displayMode ? "div" : "span";
+  return (
+    <Tag
+      onClick={selectable ? onClick : undefined}
+      style={selectable ? { cursor: "pointer" } : undefined}
+      dangerouslySetInnerHTML={{ __html: html }}
+    />
+  );
+}
+
+export default HighlightedMath;
@@ -1,6 +1,8 @@
-import React, { useMemo } from "react";
+import React, { useMemo, useState } from "react";
 import { BlockMath } from "react-katex";
+import type { ExprPath } from "../types";
 import { canonicalizeLatex } from "../utils/latex";
+import { locateSelection } from "../utils/exprPath";
 
 export type LatexRendererProps = {
   value: string;
@@ -8,6 +10,11 @@ export type LatexRendererProps = {
   label?: string;
   rows?: number;
   placeholder?: string;
+  /** Called with the subexpression selected in the text, or null when the selection is not one */
+  onSelectSubexpression?: (path: ExprPath | null) => void;
+  /** Called when an edit is finished: on Enter or when the text area loses focus. Shift+Enter starts a new line. */
+  onCommit?: () => void;
+  readOnly?: boolean;
 };
 
 
@@ -17,8 +24,22 @@ export function LatexRenderer({
   label = "LaTeX",
   rows = 4,
   placeholder = "Enter LaTeX, e.g., \\mathbb{E}[G_t\\mid S_t=s]",
+  onSelectSubexpression,
+  onCommit,
+  readOnly = false,
 }: LatexRendererProps) {
   const math = useMemo(() => canonicalizeLatex(value), [value]);
+  const [selectionError, setSelectionError] = useState(false);
+
+  const onSelect = (e: React.SyntheticEvent<HTMLTextAreaElement>) => {
+    if (!onSelectSubexpression) return;
+    const { selectionStart, selectionEnd } = e.currentTarget;
+    // A bare cursor keeps the current selection, so that clicking to edit does not clear it.
+    if (selectionStart === selectionEnd) return;
+    const path = locateSelection(value, selectionStart, selectionEnd);
+    setSelectionError(path === null);
+    onSelectSubexpression(path);
+  };
 
   return (
     <div style={{ display: "grid", gap: 12 }}>
@@ -26,16 +47,33 @@ export function LatexRenderer({
         <h2 style={{ margin: 0, fontSize: 18 }}>{label}</h2>
         <span style={{ fontSize: 12, opacity: 0.7 }}>
           Tip: use single backslashes (\mathbb, \mid). We’ll auto-fix double slashes.
+          {onCommit && " Press Enter to record an edit as a step."}
         </span>
       </div>
 
       <textarea
         value={value}
-        onChange={(e) => onChange(canonicalizeLatex(e.target.value))}
+        onChange={(e) => {
+          setSelectionError(false);
+          onChange(canonicalizeLatex(e.target.value));
+        }}
         rows={rows}
         style={{ width: "100%", fontFamily: "monospace" }}
         placeholder={placeholder}
+        onSelect={onSelect}
+        readOnly={readOnly}
+        onBlur={onCommit}
+        onKeyDown={(e) => {
+          if (!onCommit || e.key !== "Enter" || e.shiftKey) return;
+          e.preventDefault();
+          onCommit();
+        }}
       />
+      {selectionError && (
+        <div style={{ fontSize: 12, color: "#cf222e" }}>
+          The selected text is not a whole subexpression; select e.g. one term of a sum or one expectation.
+        </div>
+      )}
 
       <div>
         <div style={{ fontSize: 14, marginBottom: 6, opacity: 0.8 }}>Rendered</div>
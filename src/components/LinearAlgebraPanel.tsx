@@ -1,53 +1,146 @@
-import React, { useMemo, useState } from "react";
+import React, { useEffect, useMemo, useRef, useState } from "react";
 import { BlockMath, InlineMath } from "react-katex";
-import {
-  identity,
-  matScale,
-  matSub,
-  solveLinearSystem,
-  Mat,
-  Vec
-} from "../utils/matrix";
 import { canonicalizeLatex } from "../utils/latex";
+import {
+  absorbingStates,
+  DIRECT_SOLVE_MAX_STATES,
+  EXACT_MAX_STATES,
+  explainSingular,
+  mrpSparseSystem,
+  normalizeRows,
+  solveMrpExact,
+  terminalStates,
+  valuesFromSystem,
+  type MrpModel,
+  type MrpValidation,
+} from "../mrp";
+import { ratToLatex, type RatVec } from "../utils/rational";
+import type { SparseMethod } from "../utils/sparse";
+import type { Vec } from "../utils/matrix";
+import { solveInWorker, type WorkerSolve } from "../workers/sparseSolver";
+import ConvergenceTrace from "./ConvergenceTrace";
+import EliminationTrace from "./EliminationTrace";
+import SpectralAnalysis from "./SpectralAnalysis";
+import SamplingEstimates from "./SamplingEstimates";
+import type { MrpParams } from "../types";
 
-function parseMatrix(text: string): Mat {
-  const rows = text
-    .trim()
-    .split("\n")
-    .map(r => r.split(",").map(Number));
-
-  const n = rows.length;
-  if (rows.some(r => r.length !== n)) {
-    throw new Error("P must be square");
-  }
-  return rows;
-}
+/** V from the dense solver, for MRPs of at most `DIRECT_SOLVE_MAX_STATES` states. */
+export type DirectSolution = { ok: true; V: Vec } | { ok: false; error: string };
 
-function parseVector(text: string, n: number): Vec {
-  const v = text.split(",").map(Number);
-  if (v.length !== n) throw new Error("R length mismatch");
-  return v;
-}
+export type LinearAlgebraPanelProps = {
+  value: MrpParams;
+  onChange: (value: MrpParams) => void;
+  /** `value` as validated by the caller, which may lag behind it while a large MRP is typed */
+  validation: MrpValidation;
+  /** The dense solve of the validated model; null when it is invalid or too large */
+  solution: DirectSolution | null;
+};
 
-export default function LinearAlgebraPanel() {
-  const [gamma, setGamma] = useState("0.9");
-  const [Ptext, setPtext] = useState("0.5,0.5\n0.2,0.8");
-  const [Rtext, setRtext] = useState("1,0");
+/** Solutions as reduced fractions, or as decimals to six significant digits. */
+type Display = "exact" | "decimal";
 
-  const result = useMemo(() => {
-    try {
-      const g = Number(gamma);
-      const P = parseMatrix(Ptext);
-      const R = parseVector(Rtext, P.length);
+const decimal = (x: number) => String(Number(x.toPrecision(6)));
+
+/** A sparse solve in the worker, for the model it was started for. */
+type SparseRun = { model: MrpModel } & (
+  | { status: "running"; iteration: number; residual: number }
+  | { status: "done"; V: Vec; iterations: number; residual: number; converged: boolean }
+  | { status: "error" | "cancelled"; error: string }
+);
+
+const SPARSE_METHODS: { id: SparseMethod; label: string }[] = [
+  { id: "bicgstab", label: "BiCGSTAB" },
+  { id: "gauss-seidel", label: "Gauss–Seidel" },
+];
+
+/** V is listed for at most this many states. */
+const MAX_LISTED = 50;
+
+export default function LinearAlgebraPanel({ value, onChange, validation, solution }: LinearAlgebraPanelProps) {
+  const { gamma, P: Ptext, R: Rtext, states = "" } = value;
+  const setGamma = (g: string) => onChange({ ...value, gamma: g });
+  const setPtext = (P: string) => onChange({ ...value, P });
+  const setRtext = (R: string) => onChange({ ...value, R });
+  const setStates = (names: string) => onChange({ ...value, states: names });
+  // Decimals by default: exact elimination of a dense decimal MRP is slow enough to make typing lag.
+  const [display, setDisplay] = useState<Display>("decimal");
+
+  const model = validation.model;
+  const rowSumsOff = validation.P !== null && validation.issues.some(i => i.field === "P" && i.col === undefined);
 
-      const A = matSub(identity(P.length), matScale(P, g));
-      const V = solveLinearSystem(A, R);
+  // Large MRPs are solved iteratively in a worker, so that typing stays responsive.
+  const large = model !== null && model.states.length > DIRECT_SOLVE_MAX_STATES;
+  const exactFits = model === null || model.states.length <= EXACT_MAX_STATES;
+  const [method, setMethod] = useState<SparseMethod>("bicgstab");
+  const [sparse, setSparse] = useState<SparseRun | null>(null);
+  const [attempt, setAttempt] = useState(0);
+  const cancelSolve = useRef<(() => void) | null>(null);
 
-      return { ok: true as const, V };
+  useEffect(() => {
+    if (!model || !large) return;
+    const reason = explainSingular(model);
+    if (reason) {
+      setSparse({ model, status: "error", error: reason });
+      return;
+    }
+    setSparse({ model, status: "running", iteration: 0, residual: NaN });
+    // Results of a solve that was superseded are dropped.
+    let live = true;
+    const { states: unknowns, A, b } = mrpSparseSystem(model);
+    const solve: WorkerSolve = solveInWorker(A, b, {
+      method,
+      onProgress: (iteration, residual) => live && setSparse({ model, status: "running", iteration, residual }),
+    });
+    cancelSolve.current = solve.cancel;
+    solve.result.then(
+      (solution) =>
+        live &&
+        setSparse({
+          model,
+          status: "done",
+          V: valuesFromSystem(model, unknowns, solution.x),
+          iterations: solution.iterations,
+          residual: solution.residuals[solution.residuals.length - 1] ?? 0,
+          converged: solution.converged,
+        }),
+      (e: Error) => live && setSparse({ model, status: e.message === "Cancelled" ? "cancelled" : "error", error: e.message })
+    );
+    return () => {
+      live = false;
+      solve.cancel();
+      cancelSolve.current = null;
+    };
+  }, [model, large, method, attempt]);
+
+  const run = sparse?.model === model ? sparse : null;
+
+  const result = useMemo((): DirectSolution => {
+    if (!model) return { ok: false, error: "Fix the errors above to solve." };
+    if (large) {
+      if (run?.status === "done") return { ok: true, V: run.V };
+      return { ok: false, error: run?.status === "error" ? run.error : "" };
+    }
+    return solution ?? { ok: false, error: "" };
+  }, [model, large, run, solution]);
+
+  // Exact elimination is only worth its cost when the fractions are shown.
+  const exact = useMemo((): { ok: true; V: RatVec } | { ok: false; error: string } | null => {
+    if (display !== "exact" || !model || !result.ok || !exactFits) return null;
+    try {
+      return { ok: true, V: solveMrpExact(model) };
     } catch (e) {
-      return { ok: false as const, error: String(e) };
+      return { ok: false, error: e instanceof Error ? e.message : String(e) };
     }
-  }, [gamma, Ptext, Rtext]);
+  }, [display, model, result.ok, exactFits]);
+  const shown = result.ok ? (exact?.ok ? exact.V.map(ratToLatex) : result.V.map(decimal)) : [];
+
+  const normalize = () => {
+    if (!validation.P) return;
+    setPtext(normalizeRows(validation.P).map(row => row.map(x => String(Number(x.toPrecision(12)))).join(",")).join("\n"));
+  };
+
+  const absorbing = model ? absorbingStates(model.P) : [];
+  const terminal = new Set(model ? terminalStates(model) : []);
 
   return (
     <div style={{ border: "1px solid #ccc", padding: 12, borderRadius: 12 }}>
@@ -59,6 +152,10 @@ export default function LinearAlgebraPanel() {
         <input value={gamma} onChange={e => setGamma(e.target.value)} />
       </label>
 
+      <label>States (CSV names)
+        <input value={states} placeholder="s1,s2,..." onChange={e => setStates(e.target.value)} />
+      </label>
+
       <label>P (CSV rows)
         <textarea value={Ptext} onChange={e => setPtext(e.target.value)} />
       </label>
@@ -67,13 +164,106 @@ export default function LinearAlgebraPanel() {
         <input value={Rtext} onChange={e => setRtext(e.target.value)} />
       </label>
 
-      {result.ok ? (
+      {validation.issues.length > 0 && (
+        <ul style={{ margin: "8px 0", paddingLeft: 20, fontSize: 13 }}>
+          {validation.issues.map((issue, i) => (
+            <li key={i} style={{ color: issue.severity === "error" ? "red" : "#9a6700" }}>
+              {issue.message}
+            </li>
+          ))}
+        </ul>
+      )}
+      {rowSumsOff && <button onClick={normalize}>Normalize rows</button>}
+
+      {absorbing.length > 0 && model && (
+        <div style={{ fontSize: 13, margin: "8px 0" }}>
+          Absorbing states:{" "}
+          {absorbing.map(i => `${model.states[i]}${terminal.has(i) ? " (terminal, V = 0)" : ""}`).join(", ")}
+        </div>
+      )}
+
+      {large && model && (
+        <div style={{ margin: "8px 0", fontSize: 13 }}>
+          {model.states.length} states: solved iteratively on a sparse matrix, in the background, with{" "}
+          <select value={method} onChange={(e) => setMethod(e.target.value as SparseMethod)}>
+            {SPARSE_METHODS.map((m) => (
+              <option key={m.id} value={m.id}>
+                {m.label}
+              </option>
+            ))}
+          </select>
+          .{" "}
+          {run?.status === "running" && (
+            <>
+              Solving…{run.iteration > 0 && ` iteration ${run.iteration}, relative residual ${run.residual.toExponential(2)}`}{" "}
+              <button onClick={() => cancelSolve.current?.()}>Cancel</button>
+            </>
+          )}
+          {run?.status === "done" &&
+            `${run.converged ? "Converged" : "Stopped without converging"} after ${run.iterations} iterations; relative residual ‖R − (I − γP)V‖ / ‖R‖ = ${run.residual.toExponential(2)}.`}
+          {run?.status === "cancelled" && (
+            <>
+              Cancelled. <button onClick={() => setAttempt(attempt + 1)}>Solve again</button>
+            </>
+          )}
+        </div>
+      )}
+
+      {model && !large && !exactFits && (
+        <div style={{ margin: "8px 0", fontSize: 13 }}>
+          V is shown in decimals; exact fractions are computed for MRPs with at most {EXACT_MAX_STATES} states.
+        </div>
+      )}
+      {exactFits && (
+        <div style={{ margin: "8px 0", fontSize: 13 }}>
+          Show V as{" "}
+          <label>
+            <input type="radio" checked={display === "exact"} onChange={() => setDisplay("exact")} /> exact fractions
+          </label>{" "}
+          <label>
+            <input type="radio" checked={display === "decimal"} onChange={() => setDisplay("decimal")} /> decimals
+          </label>
+        </div>
+      )}
+
+      {result.ok && model ? (
         <div>
           <strong>V =</strong>{" "}
-          <InlineMath math={canonicalizeLatex("[" + result.V.join(", ") + "]")} />
+          <InlineMath
+            math={canonicalizeLatex(
+              "\\left[" + shown.slice(0, MAX_LISTED).join(", ") + (shown.length > MAX_LISTED ? ", \\ldots" : "") + "\\right]"
+            )}
+          />
+          {exact && !exact.ok && <div style={{ fontSize: 13, color: "#9a6700" }}>{exact.error}; showing decimals.</div>}
+          {model.states.length <= MAX_LISTED && model.states.some((s, i) => s !== `s${i + 1}`) && (
+            <div style={{ fontSize: 13 }}>
+              {model.states.map((s, i) => (
+                <React.Fragment key={s}>
+                  {i > 0 && ", "}
+                  V({s}) = <InlineMath math={shown[i]} />
+                </React.Fragment>
+              ))}
+            </div>
+          )}
+        </div>
+      ) : (
+        !result.ok && result.error && <div style={{ color: "red" }}>{result.error}</div>
+      )}
+
+      {large ? (
+        <div style={{ marginTop: 12, fontSize: 13, opacity: 0.75 }}>
+          The elimination steps, spectral analysis, iteration table and sampling estimates need dense matrices and are
+          shown for MRPs with at most {DIRECT_SOLVE_MAX_STATES} states.
         </div>
       ) : (
-        <div style={{ color: "red" }}>{result.error}</div>
+        <>
+          {model && result.ok && <EliminationTrace model={model} exact={display === "exact" && model.exact !== undefined} />}
+          {model && result.ok && <SpectralAnalysis model={model} V={result.V} />}
+          {model && (
+            <ConvergenceTrace P={model.P} R={model.R} gamma={model.gamma} exact={result.ok ? result.V : null} />
+          )}
+          {model && result.ok && <SamplingEstimates model={model} exact={result.V} />}
+        </>
       )}
     </div>
   );
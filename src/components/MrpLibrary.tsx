@@ -0,0 +1,150 @@
+import React, { useRef, useState } from "react";
+import type { MrpParams } from "../types";
+import { mrpExamples } from "../mrpLibrary";
+import { gridworld, GRIDWORLD_MAX_SIDE, parseCells, parseTerminals } from "../gridworld";
+import { exportMrpCsv, exportMrpJson, importMrp } from "../mrpFile";
+import { download } from "../utils/download";
+
+export type MrpLibraryProps = {
+  value: MrpParams;
+  onChange: (value: MrpParams) => void;
+};
+
+/** The gridworld form as typed; the defaults are Russell & Norvig's 4×3 world. */
+type GridForm = {
+  rows: string;
+  cols: string;
+  walls: string;
+  terminals: string;
+  slip: string;
+  stepReward: string;
+  gamma: string;
+};
+
+const DEFAULT_GRID: GridForm = {
+  rows: "3",
+  cols: "4",
+  walls: "2,2",
+  terminals: "1,4 = 1; 2,4 = -1",
+  slip: "0.2",
+  stepReward: "-0.04",
+  gamma: "1",
+};
+
+const inputStyle: React.CSSProperties = { width: 64 };
+
+/**
+ * Where MRPs come from besides typing them: the course examples, a gridworld
+ * generator, and JSON/CSV files to hand out with problem sets.
+ */
+export function MrpLibrary({ value, onChange }: MrpLibraryProps) {
+  const input = useRef<HTMLInputElement>(null);
+  const [status, setStatus] = useState<{ ok: boolean; text: string } | null>(null);
+  const [showGrid, setShowGrid] = useState(false);
+  const [grid, setGrid] = useState<GridForm>(DEFAULT_GRID);
+  const setField = (field: keyof GridForm) => (e: React.ChangeEvent<HTMLInputElement>) =>
+    setGrid({ ...grid, [field]: e.target.value });
+
+  const loadExample = (id: string) => {
+    const example = mrpExamples.find((ex) => ex.id === id);
+    if (!example) return;
+    onChange(example.mrp);
+    setStatus({ ok: true, text: `${example.name}: ${example.description}` });
+  };
+
+  const generate = () => {
+    try {
+      const mrp = gridworld({
+        rows: Number(grid.rows),
+        cols: Number(grid.cols),
+        walls: parseCells(grid.walls),
+        terminals: parseTerminals(grid.terminals),
+        slip: Number(grid.slip),
+        stepReward: Number(grid.stepReward),
+        gamma: Number(grid.gamma),
+      });
+      onChange(mrp);
+      setStatus({ ok: true, text: `Generated a ${grid.rows}×${grid.cols} gridworld.` });
+    } catch (e) {
+      setStatus({ ok: false, text: e instanceof Error ? e.message : String(e) });
+    }
+  };
+
+  const importFile = async (f: File) => {
+    try {
+      onChange(importMrp(await f.text()));
+      setStatus({ ok: true, text: `Loaded ${f.name}.` });
+    } catch (e) {
+      setStatus({ ok: false, text: `${f.name}: ${e instanceof Error ? e.message : String(e)}` });
+    }
+  };
+
+  return (
+    <div style={{ padding: 12, border: "1px solid rgba(0,0,0,0.15)", borderRadius: 12 }}>
+      <div style={{ fontSize: 14, opacity: 0.75, marginBottom: 6 }}>MRP library</div>
+      <div style={{ display: "flex", gap: 8, flexWrap: "wrap", alignItems: "baseline" }}>
+        <select value="" onChange={(e) => loadExample(e.target.value)}>
+          <option value="" disabled>
+            Load an example…
+          </option>
+          {mrpExamples.map((ex) => (
+            <option key={ex.id} value={ex.id}>
+              {ex.name}
+            </option>
+          ))}
+        </select>
+        <button onClick={() => setShowGrid(!showGrid)}>{showGrid ? "Hide gridworld generator" : "Gridworld generator…"}</button>
+        <button onClick={() => input.current?.click()}>Import JSON/CSV</button>
+        <input
+          ref={input}
+          type="file"
+          accept="application/json,.json,text/csv,.csv"
+          style={{ display: "none" }}
+          onChange={(e) => {
+            const f = e.target.files?.[0];
+            if (f) void importFile(f);
+            e.target.value = "";
+          }}
+        />
+        <button onClick={() => download("mrp.json", exportMrpJson(value), "application/json")}>Export JSON</button>
+        <button onClick={() => download("mrp.csv", exportMrpCsv(value), "text/csv")}>Export CSV</button>
+      </div>
+
+      {showGrid && (
+        <div style={{ marginTop: 8, display: "flex", gap: 8, flexWrap: "wrap", alignItems: "baseline", fontSize: 14 }}>
+          <label>
+            Rows <input style={inputStyle} value={grid.rows} onChange={setField("rows")} />
+          </label>
+          <label>
+            Columns <input style={inputStyle} value={grid.cols} onChange={setField("cols")} />
+          </label>
+          <label>
+            Walls <input value={grid.walls} placeholder="row,col; ..." onChange={setField("walls")} />
+          </label>
+          <label>
+            Terminal cells <input value={grid.terminals} placeholder="row,col = reward; ..." onChange={setField("terminals")} />
+          </label>
+          <label>
+            Slip <input style={inputStyle} value={grid.slip} onChange={setField("slip")} />
+          </label>
+          <label>
+            Reward per move <input style={inputStyle} value={grid.stepReward} onChange={setField("stepReward")} />
+          </label>
+          <label>
+            γ <input style={inputStyle} value={grid.gamma} onChange={setField("gamma")} />
+          </label>
+          <button onClick={generate}>Generate</button>
+          <div style={{ flexBasis: "100%", fontSize: 13, opacity: 0.75 }}>
+            The uniform random policy on a grid of at most {GRIDWORLD_MAX_SIDE}×{GRIDWORLD_MAX_SIDE} cells, numbered from
+            row 1 at the top. Each move goes ahead, or with the slip probability to one side; moves into a wall or the
+            edge stay put. Entering a terminal cell pays its reward and ends the episode.
+          </div>
+        </div>
+      )}
+
+      {status && <div style={{ marginTop: 6, fontSize: 13, color: status.ok ? undefined : "#cf222e" }}>{status.text}</div>}
+    </div>
+  );
+}
+
+export default MrpLibrary;
@@ -0,0 +1,112 @@
+import React from "react";
+import { InlineMath } from "react-katex";
+import type { RewriteRule } from "../types";
+import type { NearMiss, RuleFailure } from "../diagnostics";
+import { canonicalizeLatex } from "../utils/latex";
+
+export type RuleDiagnosticsProps = {
+  /** The last rule that failed on the active step */
+  failure: RuleFailure | null;
+  /** Exercise feedback shown in place of the suggestions */
+  feedback?: string;
+  nearMisses: NearMiss[];
+  /** Rules that raised while being matched */
+  errors: { rule: RewriteRule; error: string }[];
+  onDismiss: () => void;
+};
+
+/** Text with math between `$` signs, as produced by the diagnostics. */
+function MathText({ text }: { text: string }) {
+  return (
+    <>
+      {text.split("$").map((part, i) =>
+        i % 2 === 1 ? <InlineMath key={i} math={canonicalizeLatex(part)} /> : <React.Fragment key={i}>{part}</React.Fragment>
+      )}
+    </>
+  );
+}
+
+export function RuleDiagnostics({ failure, feedback, nearMisses, errors, onDismiss }: RuleDiagnosticsProps) {
+  if (!failure && nearMisses.length === 0 && errors.length === 0) return null;
+  return (
+    <div style={{ padding: 12, border: "1px solid rgba(0,0,0,0.15)", borderRadius: 12 }}>
+      <div style={{ display: "flex", justifyContent: "space-between", alignItems: "baseline", gap: 8 }}>
+        <div style={{ fontSize: 14, opacity: 0.75 }}>Diagnostics</div>
+        {failure && <button onClick={onDismiss}>Dismiss</button>}
+      </div>
+
+      {failure && (
+        <div style={{ marginTop: 8, fontSize: 13 }}>
+          <div style={{ fontWeight: 700, color: "#cf222e" }}>
+            {failure.ruleName} did not apply <span style={{ fontWeight: 400, opacity: 0.6 }}>({failure.ruleId})</span>
+          </div>
+          <div style={{ marginTop: 4 }}>
+            <MathText text={failure.message} />
+          </div>
+          <div style={{ marginTop: 6, opacity: 0.8 }}>
+            Looks for:{" "}
+            {failure.expected.map((latex, i) => (
+              <React.Fragment key={i}>
+                {i > 0 && " or "}
+                <InlineMath math={canonicalizeLatex(latex)} />
+              </React.Fragment>
+            ))}
+          </div>
+          {failure.divergence && failure.divergence.mismatches.length > 0 && (
+            <ul style={{ margin: "6px 0 0", paddingLeft: 20 }}>
+              {failure.divergence.mismatches.map((m, i) => (
+                <li key={i}>
+                  expected <InlineMath math={canonicalizeLatex(m.expected)} /> where you have{" "}
+                  <InlineMath math={canonicalizeLatex(m.found)} />
+                </li>
+              ))}
+            </ul>
+          )}
+          {feedback !== undefined ? (
+            <div style={{ marginTop: 6 }}>
+              <MathText text={feedback} />
+            </div>
+          ) : (
+            failure.suggestions.length > 0 && (
+              <ul style={{ margin: "6px 0 0", paddingLeft: 20 }}>
+                {failure.suggestions.map((s, i) => (
+                  <li key={i}>
+                    <MathText text={s} />
+                  </li>
+                ))}
+              </ul>
+            )
+          )}
+        </div>
+      )}
+
+      {nearMisses.length > 0 && (
+        <div style={{ marginTop: 10, fontSize: 13 }}>
+          <div style={{ opacity: 0.75 }}>Almost applicable</div>
+          <ul style={{ margin: "4px 0 0", paddingLeft: 20 }}>
+            {nearMisses.map((n) => (
+              <li key={n.rule.id}>
+                <MathText text={n.suggestion} />
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {errors.length > 0 && (
+        <div style={{ marginTop: 10, fontSize: 13, color: "#cf222e" }}>
+          <div>Rules that failed with an error</div>
+          <ul style={{ margin: "4px 0 0", paddingLeft: 20 }}>
+            {errors.map(({ rule, error }) => (
+              <li key={rule.id}>
+                {rule.name} ({rule.id}): {error}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default RuleDiagnostics;
@@ -0,0 +1,62 @@
+import React, { useRef, useState } from "react";
+import type { RulePack } from "../types";
+import { registerRulePack } from "../rules";
+import { formatSchemaErrors, validateRulePack } from "../rules/declarative";
+
+export type RulePackLoaderProps = {
+  onLoad: (pack: RulePack) => void;
+};
+
+/** Upload a JSON rule pack (see rules/declarative) and add it to the pack list. */
+export function RulePackLoader({ onLoad }: RulePackLoaderProps) {
+  const input = useRef<HTMLInputElement>(null);
+  const [error, setError] = useState<{ file: string; text: string } | null>(null);
+
+  const loadFile = async (f: File) => {
+    let data: unknown;
+    try {
+      data = JSON.parse(await f.text());
+    } catch (e) {
+      setError({ file: f.name, text: `Not valid JSON: ${e instanceof Error ? e.message : String(e)}` });
+      return;
+    }
+    const { pack, errors } = validateRulePack(data);
+    if (!pack) {
+      setError({ file: f.name, text: formatSchemaErrors(errors) });
+      return;
+    }
+    try {
+      registerRulePack(pack);
+    } catch (e) {
+      setError({ file: f.name, text: e instanceof Error ? e.message : String(e) });
+      return;
+    }
+    setError(null);
+    onLoad(pack);
+  };
+
+  return (
+    <>
+      <button onClick={() => input.current?.click()}>Load rule pack…</button>
+      <input
+        ref={input}
+        type="file"
+        accept="application/json,.json"
+        style={{ display: "none" }}
+        onChange={(e) => {
+          const f = e.target.files?.[0];
+          if (f) void loadFile(f);
+          e.target.value = "";
+        }}
+      />
+      {error && (
+        <div style={{ flexBasis: "100%", fontSize: 13, color: "#cf222e" }}>
+          {error.file} is not a valid rule pack:
+          <pre style={{ margin: "4px 0 0", whiteSpace: "pre-wrap" }}>{error.text}</pre>
+        </div>
+      )}
+    </>
+  );
+}
+
+export default RulePackLoader;
@@ -0,0 +1,141 @@
+import React, { useState } from "react";
+import type { MrpModel } from "../mrp";
+import { estimateValues, TD_STEP_SIZE, type EstimationResult, type Estimator } from "../simulation";
+import type { Vec } from "../utils/matrix";
+import ErrorPlot from "./ErrorPlot";
+
+export type SamplingEstimatesProps = {
+  model: MrpModel;
+  /** Direct solution to compare against, if the system could be solved */
+  exact: Vec | null;
+};
+
+const ESTIMATORS: { id: Estimator; label: string }[] = [
+  { id: "mc-first-visit", label: "Monte Carlo (first visit)" },
+  { id: "mc-every-visit", label: "Monte Carlo (every visit)" },
+  { id: "td0", label: "TD(0)" },
+];
+
+const cell: React.CSSProperties = { textAlign: "right", padding: "2px 8px" };
+
+export function SamplingEstimates({ model, exact }: SamplingEstimatesProps) {
+  const [estimator, setEstimator] = useState<Estimator>("mc-first-visit");
+  const [episodes, setEpisodes] = useState("200");
+  const [stepSize, setStepSize] = useState("");
+  const [runs, setRuns] = useState("10");
+  const [seed, setSeed] = useState("1");
+  const [run, setRun] = useState<
+    { ok: true; result: EstimationResult; model: MrpModel; estimator: Estimator } | { ok: false; error: string } | null
+  >(null);
+
+  const simulate = () => {
+    try {
+      const alpha = stepSize.trim() === "" ? undefined : Number(stepSize);
+      if (alpha !== undefined && !(alpha > 0 && alpha <= 1)) throw new Error("The step size must lie in (0, 1]");
+      const result = estimateValues(
+        model,
+        {
+          estimator,
+          episodes: Math.max(1, Math.floor(Number(episodes))),
+          stepSize: alpha,
+          runs: Math.max(1, Math.floor(Number(runs))),
+          seed: Math.floor(Number(seed)),
+        },
+        exact ?? undefined
+      );
+      setRun({ ok: true, result, model, estimator });
+    } catch (e) {
+      setRun({ ok: false, error: e instanceof Error ? e.message : String(e) });
+    }
+  };
+
+  // Results are kept until the next run, but only shown for the model they were computed for.
+  const current = run?.ok && run.model === model ? run.result : null;
+  const bootstrapped = run?.ok && run.estimator === "td0";
+
+  return (
+    <div style={{ marginTop: 12 }}>
+      <h3 style={{ margin: "0 0 8px", fontSize: 16 }}>Estimating V from sampled episodes</h3>
+      <div style={{ display: "flex", gap: 12, flexWrap: "wrap", alignItems: "baseline", fontSize: 14 }}>
+        <label>
+          Estimator{" "}
+          <select value={estimator} onChange={(e) => setEstimator(e.target.value as Estimator)}>
+            {ESTIMATORS.map((m) => (
+              <option key={m.id} value={m.id}>
+                {m.label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label>
+          Episodes <input value={episodes} onChange={(e) => setEpisodes(e.target.value)} size={5} />
+        </label>
+        <label>
+          Step size α{" "}
+          <input
+            value={stepSize}
+            placeholder={estimator === "td0" ? String(TD_STEP_SIZE) : "1/n"}
+            onChange={(e) => setStepSize(e.target.value)}
+            size={5}
+          />
+        </label>
+        <label>
+          Runs <input value={runs} onChange={(e) => setRuns(e.target.value)} size={3} />
+        </label>
+        <label>
+          Seed <input value={seed} onChange={(e) => setSeed(e.target.value)} size={4} />
+        </label>
+        <button onClick={simulate}>Simulate</button>
+      </div>
+
+      {run && !run.ok && <div style={{ color: "red" }}>{run.error}</div>}
+      {current && (
+        <div style={{ marginTop: 8, display: "grid", gap: 8 }}>
+          <div style={{ fontSize: 13, opacity: 0.8 }}>
+            {current.steps} sampled transitions. Intervals are 95% confidence intervals across the independent runs.
+            {bootstrapped &&
+              " TD(0) bootstraps from its own estimates, so they are biased until they converge; the intervals show the spread between runs, not that bias."}
+          </div>
+          <table style={{ borderCollapse: "collapse", fontSize: 12, fontFamily: "monospace" }}>
+            <thead>
+              <tr>
+                <th style={{ ...cell, textAlign: "left" }}>state</th>
+                {exact && <th style={cell}>exact V</th>}
+                <th style={cell}>estimate</th>
+                <th style={cell}>95% CI</th>
+                {exact && <th style={cell}>covers exact</th>}
+              </tr>
+            </thead>
+            <tbody>
+              {model.states.map((s, i) => (
+                <tr key={s}>
+                  <td style={{ ...cell, textAlign: "left" }}>{s}</td>
+                  {exact && <td style={cell}>{exact[i].toFixed(4)}</td>}
+                  <td style={cell}>{current.estimate[i].toFixed(4)}</td>
+                  <td style={cell}>
+                    {Number.isFinite(current.lower[i])
+                      ? `[${current.lower[i].toFixed(4)}, ${current.upper[i].toFixed(4)}]`
+                      : "needs 2+ runs"}
+                  </td>
+                  {exact && (
+                    <td style={cell}>{current.lower[i] <= exact[i] && exact[i] <= current.upper[i] ? "✓" : "✗"}</td>
+                  )}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {current.curve.length > 1 && (
+            <div>
+              <div style={{ fontSize: 13, opacity: 0.8, marginBottom: 4 }}>
+                Learning curve: ‖V̂ − V‖∞ of the mean estimate against episodes
+              </div>
+              <ErrorPlot points={current.curve.map((p) => ({ x: p.episodes, error: p.error }))} xLabel="episodes" />
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default SamplingEstimates;
@@ -0,0 +1,70 @@
+import React, { useRef, useState } from "react";
+import type { DerivationFile, DerivationStep, RulePack } from "../types";
+import { derivationToLatex, encodeShareHash, exportDerivation, importDerivation, type ImportResult } from "../derivationFile";
+import { download } from "../utils/download";
+
+export type SaveShareCardProps = {
+  file: DerivationFile;
+  /** Steps of the branch being shown, written to the LaTeX export */
+  branch: DerivationStep[];
+  pack: RulePack;
+  onImport: (result: ImportResult) => void;
+};
+
+export function SaveShareCard({ file, branch, pack, onImport }: SaveShareCardProps) {
+  const input = useRef<HTMLInputElement>(null);
+  const [status, setStatus] = useState<{ ok: boolean; text: string } | null>(null);
+
+  const importFile = async (f: File) => {
+    try {
+      const result = importDerivation(await f.text());
+      onImport(result);
+      const stale = Object.keys(result.issues).length;
+      setStatus({
+        ok: stale === 0,
+        text: stale === 0 ? `Loaded ${f.name}.` : `Loaded ${f.name}; ${stale} step${stale === 1 ? " does" : "s do"} not reproduce.`,
+      });
+    } catch (e) {
+      setStatus({ ok: false, text: e instanceof Error ? e.message : String(e) });
+    }
+  };
+
+  const copyLink = async () => {
+    // The address bar may lag behind the latest edits, or leave out a large MRP.
+    window.history.replaceState(null, "", `#${encodeShareHash(file)}`);
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      setStatus({ ok: true, text: "Link to this derivation copied." });
+    } catch {
+      setStatus({ ok: false, text: "Could not copy; the address bar holds the link." });
+    }
+  };
+
+  return (
+    <div style={{ padding: 12, border: "1px solid rgba(0,0,0,0.15)", borderRadius: 12 }}>
+      <div style={{ fontSize: 14, opacity: 0.75, marginBottom: 6 }}>Save and share</div>
+      <div style={{ display: "flex", gap: 8, flexWrap: "wrap" }}>
+        <button onClick={() => download("derivation.json", exportDerivation(file), "application/json")}>Export JSON</button>
+        <button onClick={() => download("derivation.tex", derivationToLatex(branch, pack), "application/x-tex")}>
+          Export LaTeX
+        </button>
+        <button onClick={copyLink}>Copy link</button>
+        <button onClick={() => input.current?.click()}>Import JSON</button>
+        <input
+          ref={input}
+          type="file"
+          accept="application/json,.json"
+          style={{ display: "none" }}
+          onChange={(e) => {
+            const f = e.target.files?.[0];
+            if (f) void importFile(f);
+            e.target.value = "";
+          }}
+        />
+      </div>
+      {status && <div style={{ marginTop: 6, fontSize: 13, color: status.ok ? undefined : "#cf222e" }}>{status.text}</div>}
+    </div>
+  );
+}
+
+export default SaveShareCard;
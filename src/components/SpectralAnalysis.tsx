@@ -0,0 +1,143 @@
+import React, { useMemo } from "react";
+import { InlineMath } from "react-katex";
+import ValueCurves from "./ValueCurves";
+import { effectiveHorizon, mrpSystem, recurrentClasses, valueSensitivity, valueSweep, type MrpModel } from "../mrp";
+import {
+  conditionNumber,
+  eigenvalues,
+  matScale,
+  spectralRadius,
+  stationaryDistribution,
+  type Complex,
+  type Vec,
+} from "../utils/matrix";
+
+export type SpectralAnalysisProps = {
+  model: MrpModel;
+  /** The solved values */
+  V: Vec;
+};
+
+/** γ from 0 to 1, denser towards 1 where V changes fastest. */
+const SWEEP = [
+  ...Array.from({ length: 19 }, (_, i) => i * 0.05),
+  0.95, 0.96, 0.97, 0.98, 0.99, 0.995, 0.999, 1,
+];
+
+/**
+ * Eigenvalues, the condition number and the γ sweep each cost O(n³) on the
+ * main thread, so they are left out above this many states.
+ */
+export const SPECTRAL_MAX_STATES = 100;
+
+const fmt = (x: number) => (Number.isFinite(x) ? String(Number(x.toPrecision(4))) : "\\infty");
+
+function complexLatex({ re, im }: Complex): string {
+  const r = Math.abs(re) < 1e-12 ? 0 : re;
+  const i = Math.abs(im) < 1e-12 ? 0 : im;
+  if (i === 0) return fmt(r);
+  const imag = `${fmt(Math.abs(i))}i`;
+  return r === 0 ? `${i < 0 ? "-" : ""}${imag}` : `${fmt(r)} ${i < 0 ? "-" : "+"} ${imag}`;
+}
+
+/**
+ * Why the solve is well posed: the eigenvalues of P and the spectral radius
+ * of γP, the condition number of I - γP, the effective horizon, and how V
+ * depends on γ, both as a derivative and as curves over a γ sweep.
+ */
+export function SpectralAnalysis({ model, V }: SpectralAnalysisProps) {
+  const tooLarge = model.states.length > SPECTRAL_MAX_STATES;
+  const analysis = useMemo(() => {
+    if (tooLarge) return null;
+    const { P, gamma } = model;
+    const spectrum = eigenvalues(P).sort((a, b) => Math.hypot(b.re, b.im) - Math.hypot(a.re, a.im));
+    const classes = recurrentClasses(P);
+    let stationary: Vec | null = null;
+    if (classes.length === 1) {
+      try {
+        stationary = stationaryDistribution(P);
+      } catch {
+        // Left null; explained by the number of classes, or round-off.
+      }
+    }
+    let dV: Vec | null = null;
+    try {
+      dV = valueSensitivity(model, V);
+    } catch {
+      // Singular at this γ; the solve would have failed first.
+    }
+    return {
+      spectrum,
+      rho: spectralRadius(matScale(P, gamma)),
+      kappa: conditionNumber(mrpSystem(model).A),
+      classes,
+      stationary,
+      dV,
+      sweep: valueSweep(model, SWEEP),
+    };
+  }, [model, V, tooLarge]);
+
+  if (!analysis) {
+    return (
+      <div style={{ marginTop: 12, fontSize: 13, opacity: 0.75 }}>
+        The spectral and sensitivity analysis is shown for MRPs with at most {SPECTRAL_MAX_STATES} states.
+      </div>
+    );
+  }
+  const { spectrum, rho, kappa, classes, stationary, dV, sweep } = analysis;
+  const names = model.states;
+  return (
+    <div style={{ marginTop: 12 }}>
+      <h3 style={{ margin: "0 0 8px", fontSize: 16 }}>Spectral and sensitivity analysis</h3>
+      <div style={{ display: "grid", gap: 6, fontSize: 14 }}>
+        <div>
+          Effective horizon <InlineMath math={`\\frac{1}{1 - \\gamma} = ${fmt(effectiveHorizon(model.gamma))}`} /> steps.
+        </div>
+        <div>
+          Eigenvalues of <InlineMath math="P" />:{" "}
+          <InlineMath math={spectrum.map(complexLatex).join(",\\ ")} />. Spectral radius{" "}
+          <InlineMath math={`\\rho(\\gamma P) = ${fmt(rho)}`} />
+          {rho < 1 - 1e-12
+            ? ", below 1, so I − γP is invertible and synchronous backups converge at that asymptotic rate."
+            : ", so I − γP is invertible only because terminal states are fixed at 0."}
+        </div>
+        <div>
+          Condition number <InlineMath math={`\\kappa_\\infty(I - \\gamma P) = ${fmt(kappa)}`} />
+          {Number.isFinite(kappa) && kappa > 1e8 && " — large: digits of V are lost to round-off."}
+        </div>
+        <div>
+          {stationary ? (
+            <>
+              Stationary distribution:{" "}
+              {names.map((s, i) => (
+                <React.Fragment key={s}>
+                  {i > 0 && ", "}π({s}) = <InlineMath math={fmt(Math.abs(stationary[i]) < 1e-12 ? 0 : stationary[i])} />
+                </React.Fragment>
+              ))}
+            </>
+          ) : (
+            `No unique stationary distribution: the chain has ${classes.length} closed classes, so where it settles depends on where it starts.`
+          )}
+        </div>
+        {dV && (
+          <div>
+            Sensitivity to γ:{" "}
+            {names.map((s, i) => (
+              <React.Fragment key={s}>
+                {i > 0 && ", "}
+                <InlineMath math={`\\tfrac{\\partial V}{\\partial \\gamma}`} />({s}) = <InlineMath math={fmt(dV[i])} />
+              </React.Fragment>
+            ))}
+          </div>
+        )}
+        <div style={{ fontSize: 13, opacity: 0.8 }}>
+          V(γ) over γ ∈ [0, 1]: as γ → 1 the horizon grows without bound, and so do the values of states that keep
+          collecting reward.
+        </div>
+        <ValueCurves sweep={sweep} states={names} current={model.gamma} />
+      </div>
+    </div>
+  );
+}
+
+export default SpectralAnalysis;
@@ -0,0 +1,306 @@
+import React, { useEffect, useMemo, useState } from "react";
+import type { MrpParams } from "../types";
+import { addState, mrpCells, removeState, renameState, setReward, setTransition } from "../mrpEdit";
+import type { Vec } from "../utils/matrix";
+import { parseRational, toNumber } from "../utils/rational";
+
+export type StateGraphProps = {
+  value: MrpParams;
+  onChange: (value: MrpParams) => void;
+  /** Solved values, used to colour the nodes; null when the MRP has no solution */
+  V: Vec | null;
+};
+
+type Selection = { kind: "state"; i: number } | { kind: "edge"; i: number; j: number } | null;
+
+const SIZE = 380;
+const NODE_RADIUS = 26;
+/** Past this the circle is too crowded to read. */
+const MAX_DRAWN_STATES = 30;
+
+const fmt = (x: number) => String(Number(x.toPrecision(3)));
+
+/** A cell as a number; NaN while it is not one, e.g. half-typed. */
+const cellValue = (text: string) => {
+  const q = parseRational(text);
+  return q ? toNumber(q) : NaN;
+};
+
+/** Low values light, high values dark, on one hue. */
+function valueColor(v: number, lo: number, hi: number): { fill: string; text: string } {
+  const t = hi > lo ? (v - lo) / (hi - lo) : 0.5;
+  const lightness = 92 - 52 * t;
+  return { fill: `hsl(212, 75%, ${lightness}%)`, text: lightness < 60 ? "white" : "black" };
+}
+
+/** States on a circle, the first at the top. */
+function layout(n: number): { x: number; y: number }[] {
+  const r = n === 1 ? 0 : SIZE / 2 - NODE_RADIUS - 30;
+  return Array.from({ length: n }, (_, i) => {
+    const a = -Math.PI / 2 + (2 * Math.PI * i) / n;
+    return { x: SIZE / 2 + r * Math.cos(a), y: SIZE / 2 + r * Math.sin(a) };
+  });
+}
+
+/**
+ * Edge i → j as a curve bent to its left, so that i → j and j → i do not
+ * overlap, shortened to end at the node's rim; with the point for its label.
+ */
+function edgePath(from: { x: number; y: number }, to: { x: number; y: number }) {
+  const dx = to.x - from.x;
+  const dy = to.y - from.y;
+  const len = Math.hypot(dx, dy) || 1;
+  const [ux, uy] = [dx / len, dy / len];
+  const bend = 22;
+  const c = { x: (from.x + to.x) / 2 + uy * bend, y: (from.y + to.y) / 2 - ux * bend };
+  const start = { x: from.x + ux * NODE_RADIUS, y: from.y + uy * NODE_RADIUS };
+  const end = { x: to.x - ux * (NODE_RADIUS + 4), y: to.y - uy * (NODE_RADIUS + 4) };
+  const label = { x: (start.x + 2 * c.x + end.x) / 4, y: (start.y + 2 * c.y + end.y) / 4 };
+  return { d: `M ${start.x} ${start.y} Q ${c.x} ${c.y} ${end.x} ${end.y}`, label };
+}
+
+/** A loop on the side of the node away from the centre. */
+function selfLoop(p: { x: number; y: number }) {
+  const a = Math.atan2(p.y - SIZE / 2, p.x - SIZE / 2) || -Math.PI / 2;
+  const [ux, uy] = [Math.cos(a), Math.sin(a)];
+  const [vx, vy] = [-uy, ux];
+  const s = { x: p.x + (ux * 0.8 + vx * 0.6) * NODE_RADIUS, y: p.y + (uy * 0.8 + vy * 0.6) * NODE_RADIUS };
+  const e = { x: p.x + (ux * 0.8 - vx * 0.6) * NODE_RADIUS, y: p.y + (uy * 0.8 - vy * 0.6) * NODE_RADIUS };
+  const far = 2.6 * NODE_RADIUS;
+  const c1 = { x: p.x + ux * far + vx * 30, y: p.y + uy * far + vy * 30 };
+  const c2 = { x: p.x + ux * far - vx * 30, y: p.y + uy * far - vy * 30 };
+  return {
+    d: `M ${s.x} ${s.y} C ${c1.x} ${c1.y} ${c2.x} ${c2.y} ${e.x} ${e.y}`,
+    label: { x: p.x + ux * (far - 4), y: p.y + uy * (far - 4) },
+  };
+}
+
+/** A text field that commits on blur or Enter, for values that cannot be kept half-typed. */
+function CommitInput({ value, onCommit, size }: { value: string; onCommit: (v: string) => void; size?: number }) {
+  const [draft, setDraft] = useState(value);
+  useEffect(() => setDraft(value), [value]);
+  return (
+    <input
+      value={draft}
+      size={size}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={() => draft !== value && onCommit(draft)}
+      onKeyDown={(e) => e.key === "Enter" && (e.target as HTMLInputElement).blur()}
+    />
+  );
+}
+
+/**
+ * The MRP as a state-transition graph that edits the same text as the CSV
+ * fields: click a state to change its reward, name and outgoing edges, or an
+ * edge to change its probability. Nodes are coloured by V.
+ */
+export function StateGraph({ value, onChange, V }: StateGraphProps) {
+  const [selection, setSelection] = useState<Selection>(null);
+  const [newTarget, setNewTarget] = useState("");
+
+  const cells = useMemo(() => mrpCells(value), [value]);
+  const { names } = cells;
+  const n = cells.P.length;
+  const P = useMemo(() => (n > MAX_DRAWN_STATES ? [] : cells.P.map((row) => row.map(cellValue))), [cells, n]);
+
+  // Drop a selection that an edit elsewhere made stale.
+  useEffect(() => {
+    if (selection && (selection.i >= n || (selection.kind === "edge" && selection.j >= n))) setSelection(null);
+  }, [selection, n]);
+
+  if (n > MAX_DRAWN_STATES) {
+    return (
+      <div style={{ border: "1px solid #ccc", padding: 12, borderRadius: 12 }}>
+        <h2>State graph</h2>
+        <div style={{ fontSize: 13, opacity: 0.75 }}>
+          {n} states are too many to draw; the graph is shown for MRPs with at most {MAX_DRAWN_STATES} states.
+        </div>
+      </div>
+    );
+  }
+
+  const points = layout(n);
+  const values = V && V.length === n ? V : null;
+  const lo = values ? Math.min(...values) : 0;
+  const hi = values ? Math.max(...values) : 0;
+  const isSelected = (i: number, j?: number) =>
+    j === undefined
+      ? selection?.kind === "state" && selection.i === i
+      : selection?.kind === "edge" && selection.i === i && selection.j === j;
+
+  const edges = P.flatMap((row, i) => row.flatMap((p, j) => (p !== 0 ? [{ i, j, p }] : [])));
+  const sel = selection && selection.i < n && (selection.kind === "state" || selection.j < n) ? selection : null;
+  const missing = sel?.kind === "state" ? names.flatMap((s, j) => (P[sel.i][j] === 0 ? [{ s, j }] : [])) : [];
+
+  const addEdge = (i: number) => {
+    const j = Number(newTarget);
+    if (newTarget === "" || !(j >= 0 && j < n)) return;
+    setSelection({ kind: "edge", i, j });
+    setNewTarget("");
+  };
+
+  return (
+    <div style={{ border: "1px solid #ccc", padding: 12, borderRadius: 12 }}>
+      <div style={{ display: "flex", justifyContent: "space-between", alignItems: "baseline" }}>
+        <h2>State graph</h2>
+        <button onClick={() => onChange(addState(value))}>Add state</button>
+      </div>
+
+      <svg
+        width={SIZE}
+        height={SIZE}
+        style={{ background: "white", border: "1px solid rgba(0,0,0,0.1)", borderRadius: 8 }}
+        onClick={() => setSelection(null)}
+      >
+        <defs>
+          <marker id="state-graph-arrow" viewBox="0 0 10 10" refX={8} refY={5} markerWidth={7} markerHeight={7} orient="auto">
+            <path d="M 0 0 L 10 5 L 0 10 z" fill="#57606a" />
+          </marker>
+        </defs>
+        {edges.map(({ i, j, p }) => {
+          const { d, label } = i === j ? selfLoop(points[i]) : edgePath(points[i], points[j]);
+          const active = isSelected(i, j);
+          const invalid = !Number.isFinite(p);
+          const select = (e: React.MouseEvent) => {
+            e.stopPropagation();
+            setSelection({ kind: "edge", i, j });
+          };
+          return (
+            <g key={`${i}-${j}`} onClick={select} style={{ cursor: "pointer" }}>
+              <path d={d} fill="none" stroke="transparent" strokeWidth={10} />
+              <path
+                d={d}
+                fill="none"
+                stroke={active ? "#0969da" : invalid ? "#cf222e" : "#57606a"}
+                strokeDasharray={invalid ? "4 3" : undefined}
+                strokeWidth={active ? 2.5 : invalid ? 1 : 1 + 1.5 * Math.min(1, Math.abs(p))}
+                markerEnd="url(#state-graph-arrow)"
+              />
+              <text x={label.x} y={label.y} fontSize={11} textAnchor="middle" dominantBaseline="middle" paintOrder="stroke" stroke="white" strokeWidth={3}>
+                {cells.P[i][j]}
+              </text>
+            </g>
+          );
+        })}
+        {points.map((pt, i) => {
+          const color = values ? valueColor(values[i], lo, hi) : { fill: "white", text: "black" };
+          return (
+            <g
+              key={i}
+              onClick={(e) => {
+                e.stopPropagation();
+                setSelection({ kind: "state", i });
+              }}
+              style={{ cursor: "pointer" }}
+            >
+              <circle
+                cx={pt.x}
+                cy={pt.y}
+                r={NODE_RADIUS}
+                fill={color.fill}
+                stroke={isSelected(i) ? "#0969da" : "#57606a"}
+                strokeWidth={isSelected(i) ? 3 : 1.5}
+              />
+              <text x={pt.x} y={pt.y - 8} fontSize={12} fontWeight={700} textAnchor="middle" fill={color.text}>
+                {names[i]}
+              </text>
+              <text x={pt.x} y={pt.y + 5} fontSize={10} textAnchor="middle" fill={color.text}>
+                R={cells.R[i]}
+              </text>
+              {values && (
+                <text x={pt.x} y={pt.y + 17} fontSize={10} textAnchor="middle" fill={color.text}>
+                  V={fmt(values[i])}
+                </text>
+              )}
+            </g>
+          );
+        })}
+      </svg>
+
+      {values && (
+        <div style={{ display: "flex", alignItems: "center", gap: 6, fontSize: 12, marginTop: 4 }}>
+          V: {fmt(lo)}
+          <span
+            style={{
+              display: "inline-block",
+              width: 120,
+              height: 10,
+              borderRadius: 4,
+              background: `linear-gradient(to right, ${valueColor(lo, lo, hi).fill}, ${valueColor(hi, lo, hi).fill})`,
+            }}
+          />
+          {fmt(hi)}
+        </div>
+      )}
+
+      {sel?.kind === "state" && (
+        <div style={{ marginTop: 8, display: "grid", gap: 6, fontSize: 13 }}>
+          <div style={{ display: "flex", gap: 12, flexWrap: "wrap", alignItems: "baseline" }}>
+            <label>
+              Name <CommitInput value={names[sel.i]} onCommit={(name) => onChange(renameState(value, sel.i, name))} size={8} />
+            </label>
+            <label>
+              R <input value={cells.R[sel.i]} size={6} onChange={(e) => onChange(setReward(value, sel.i, e.target.value))} />
+            </label>
+            <button
+              onClick={() => {
+                onChange(removeState(value, sel.i));
+                setSelection(null);
+              }}
+              disabled={n === 1}
+            >
+              Remove state
+            </button>
+          </div>
+          <div>Transitions from {names[sel.i]}:</div>
+          {names.map((target, j) =>
+            P[sel.i][j] !== 0 ? (
+              <label key={j} style={{ marginLeft: 12 }}>
+                → {target}{" "}
+                <input
+                  value={cells.P[sel.i][j]}
+                  size={6}
+                  onChange={(e) => onChange(setTransition(value, sel.i, j, e.target.value))}
+                />
+              </label>
+            ) : null
+          )}
+          {missing.length > 0 && (
+            <div style={{ marginLeft: 12 }}>
+              Add a transition to{" "}
+              <select value={newTarget} onChange={(e) => setNewTarget(e.target.value)}>
+                <option value="">…</option>
+                {missing.map(({ s, j }) => (
+                  <option key={j} value={j}>
+                    {s}
+                  </option>
+                ))}
+              </select>{" "}
+              <button onClick={() => addEdge(sel.i)} disabled={newTarget === ""}>
+                Add
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+
+      {sel?.kind === "edge" && (
+        <div style={{ marginTop: 8, fontSize: 13 }}>
+          <label>
+            P({names[sel.i]} → {names[sel.j]}){" "}
+            <input
+              value={cells.P[sel.i][sel.j]}
+              size={6}
+              autoFocus
+              onChange={(e) => onChange(setTransition(value, sel.i, sel.j, e.target.value))}
+            />
+          </label>{" "}
+          <span style={{ opacity: 0.7 }}>Set it to 0 to remove the edge.</span>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default StateGraph;
@@ -0,0 +1,48 @@
+import React from "react";
+import { InlineMath } from "react-katex";
+import type { StepCheck } from "../types";
+
+const LABELS: Record<StepCheck["status"], { symbol: string; color: string; text: string }> = {
+  verified: { symbol: "✓", color: "#1a7f37", text: "verified" },
+  unverified: { symbol: "?", color: "#9a6700", text: "unverified" },
+  refuted: { symbol: "✗", color: "#cf222e", text: "refuted" },
+};
+
+const fmt = (x: number) => (Number.isInteger(x) ? String(x) : x.toFixed(3));
+
+const bmatrix = (rows: number[][]) => `\\begin{bmatrix}${rows.map((r) => r.map(fmt).join(" & ")).join(" \\\\ ")}\\end{bmatrix}`;
+
+export function StepCheckBadge({ check }: { check: StepCheck }) {
+  const label = LABELS[check.status];
+  return (
+    <span title={check.detail} style={{ fontSize: 12, color: label.color }}>
+      {label.symbol} {label.text}
+    </span>
+  );
+}
+
+/** Outcome of checking a manual edit, with the counterexample MRP when it was refuted. */
+export function StepCheckView({ check }: { check: StepCheck }) {
+  return (
+    <div style={{ marginTop: 8, fontSize: 13 }}>
+      <StepCheckBadge check={check} />
+      {check.status === "verified" && <span style={{ opacity: 0.7 }}> ({check.method})</span>}
+      <div style={{ marginTop: 4 }}>{check.detail}</div>
+      {check.status === "refuted" && (
+        <div style={{ marginTop: 6, display: "grid", gap: 4 }}>
+          <div>
+            Counterexample: <InlineMath math={`P = ${bmatrix(check.counterexample.P)}`} />,{" "}
+            <InlineMath math={`R = ${bmatrix(check.counterexample.R.map((x) => [x]))}`} />,{" "}
+            <InlineMath math={`\\gamma = ${fmt(check.counterexample.gamma)}`} />
+          </div>
+          <div>
+            At state <InlineMath math={`s = ${check.counterexample.state + 1}`} />: previous step ={" "}
+            {fmt(check.counterexample.previous)}, edited step = {fmt(check.counterexample.edited)}.
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default StepCheckView;
@@ -0,0 +1,63 @@
+import React from "react";
+import type { Vec } from "../utils/matrix";
+
+export type ValueCurvesProps = {
+  /** V at increasing γ; null where it is not defined */
+  sweep: { gamma: number; V: Vec | null }[];
+  states: string[];
+  /** γ of the model, marked with a vertical line */
+  current: number;
+};
+
+const COLORS = ["#0969da", "#cf222e", "#1a7f37", "#9a6700", "#8250df", "#bf3989", "#0a3069", "#57606a"];
+
+/** V(γ) for every state on linear axes, one line per state. */
+export function ValueCurves({ sweep, states, current }: ValueCurvesProps) {
+  const width = 360;
+  const height = 180;
+  const defined = sweep.filter((p): p is { gamma: number; V: Vec } => p.V !== null);
+  const values = defined.flatMap((p) => p.V);
+  const lo = Math.min(0, ...values);
+  const hi = Math.max(lo + 1, ...values);
+  const x = (g: number) => 40 + g * (width - 50);
+  const y = (v: number) => 10 + ((hi - v) / (hi - lo)) * (height - 30);
+  const fmt = (v: number) => String(Number(v.toPrecision(3)));
+  return (
+    <div>
+      <svg width={width} height={height} style={{ background: "white", border: "1px solid rgba(0,0,0,0.1)", borderRadius: 8 }}>
+        <line x1={x(current)} x2={x(current)} y1={10} y2={height - 20} stroke="rgba(0,0,0,0.25)" strokeDasharray="3 3" />
+        {lo < 0 && <line x1={x(0)} x2={x(1)} y1={y(0)} y2={y(0)} stroke="rgba(0,0,0,0.15)" />}
+        {states.map((s, i) => (
+          <polyline
+            key={s}
+            fill="none"
+            stroke={COLORS[i % COLORS.length]}
+            strokeWidth={1.5}
+            points={defined.map((p) => `${x(p.gamma)},${y(p.V[i])}`).join(" ")}
+          />
+        ))}
+        <text x={4} y={y(hi) + 4} fontSize={10}>
+          {fmt(hi)}
+        </text>
+        <text x={4} y={y(lo)} fontSize={10}>
+          {fmt(lo)}
+        </text>
+        <text x={x(0)} y={height - 4} fontSize={10}>
+          γ = 0
+        </text>
+        <text x={x(1) - 30} y={height - 4} fontSize={10}>
+          γ = 1
+        </text>
+      </svg>
+      <div style={{ display: "flex", flexWrap: "wrap", gap: 10, fontSize: 12 }}>
+        {states.map((s, i) => (
+          <span key={s} style={{ color: COLORS[i % COLORS.length] }}>
+            ― V({s})
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export default ValueCurves;
@@ -0,0 +1,337 @@
+import type { DerivationFile, DerivationNode, DerivationStep, ExprPath, MrpParams, RulePack, StepCheck } from "./types";
+import { applyRule } from "./ruleEngine";
+import { manualEditStep } from "./equivalence";
+import { rulePacks } from "./rules";
+import { canonicalizeLatex } from "./utils/latex";
+import { parseLatex } from "./utils/latexParser";
+
+/**
+ * Saving and sharing derivations: a versioned JSON file, a standalone LaTeX
+ * document, and a compact URL hash. Steps produced by a rule are replayed
+ * against the current rule pack on import, so a step that a changed rule no
+ * longer reproduces is reported instead of silently trusted.
+ */
+
+export const DERIVATION_FORMAT_VERSION = 1;
+
+/** Step id → why the step does not reproduce from its parent. */
+export type ReplayIssues = Record<string, string>;
+
+export type ImportResult = { file: DerivationFile; issues: ReplayIssues };
+
+/** A node as stored; the LaTeX of rule steps may be left to the replay. */
+type StoredNode = Omit<DerivationNode, "latex"> & { latex?: string };
+
+export function findPack(packId: string): RulePack {
+  const pack = rulePacks.find((p) => p.id === packId);
+  if (!pack) throw new Error(`Unknown rule pack "${packId}"`);
+  return pack;
+}
+
+/** Whether two LaTeX strings parse to the same expression. */
+export function sameExpression(a: string, b: string): boolean {
+  if (a === b) return true;
+  try {
+    return JSON.stringify(parseLatex(a)) === JSON.stringify(parseLatex(b));
+  } catch {
+    return false;
+  }
+}
+
+export type Rederived = { ok: true; step: DerivationStep } | { ok: false; error: string };
+
+/** Apply the rule `ruleId` of `pack` to `parent` again, at the same subexpression if one was selected. */
+export function rederive(pack: RulePack, parent: DerivationStep, ruleId: string, at?: ExprPath): Rederived {
+  const rule = pack.rules.find((r) => r.id === ruleId);
+  if (!rule) return { ok: false, error: `The rule "${ruleId}" is not in the pack ${pack.name}.` };
+  try {
+    return { ok: true, step: applyRule(parent, rule, at) };
+  } catch (e) {
+    return { ok: false, error: `${rule.name} no longer applies: ${e instanceof Error ? e.message : String(e)}` };
+  }
+}
+
+/** Re-apply every step's rule to its parent, filling in LaTeX that was not stored. */
+function replay(pack: RulePack, stored: StoredNode[]): { nodes: DerivationNode[]; issues: ReplayIssues } {
+  const nodes: DerivationNode[] = [];
+  const issues: ReplayIssues = {};
+  for (const node of stored) {
+    const parent = nodes.find((n) => n.id === node.parentId);
+    if (!node.ruleId || !parent) {
+      if (node.latex === undefined) throw new Error(`Step ${node.id} has neither LaTeX nor a rule to derive it`);
+      nodes.push({ ...node, latex: node.latex });
+      continue;
+    }
+
+    const result = rederive(pack, parent, node.ruleId, node.at);
+    const derived = result.ok ? result.step : undefined;
+    if (!result.ok) issues[node.id] = result.error;
+    else if (node.latex !== undefined && !sameExpression(result.step.latex, node.latex)) {
+      issues[node.id] = `${result.step.ruleName} now gives a different result from the previous step.`;
+    }
+    nodes.push({ ...derived, ...node, latex: node.latex ?? derived?.latex ?? parent.latex });
+  }
+  return { nodes, issues };
+}
+
+const fail = (message: string): never => {
+  throw new Error(`Not a derivation file: ${message}`);
+};
+
+const isRecord = (x: unknown): x is Record<string, unknown> => typeof x === "object" && x !== null && !Array.isArray(x);
+
+function optionalString(obj: Record<string, unknown>, key: string, where: string): string | undefined {
+  const value = obj[key];
+  if (value !== undefined && typeof value !== "string") fail(`${where}.${key} must be a string`);
+  return value as string | undefined;
+}
+
+const isPath = (x: unknown): x is ExprPath => Array.isArray(x) && x.every((i) => Number.isInteger(i) && i > 0);
+
+function optionalPath(obj: Record<string, unknown>, key: string, where: string): ExprPath | undefined {
+  const value = obj[key];
+  if (value !== undefined && !isPath(value)) fail(`${where}.${key} must be a list of positive integers`);
+  return value as ExprPath | undefined;
+}
+
+function readMrp(x: unknown): MrpParams {
+  if (!isRecord(x)) return fail("mrp must be an object");
+  const [gamma, P, R] = ["gamma", "P", "R"].map((key) => {
+    if (typeof x[key] !== "string") fail(`mrp.${key} must be a string`);
+    return x[key] as string;
+  });
+  const states = optionalString(x, "states", "mrp");
+  return states === undefined ? { gamma, P, R } : { gamma, P, R, states };
+}
+
+function readNode(x: unknown, index: number, ids: Set<string>): DerivationNode {
+  const where = `tree.nodes[${index}]`;
+  if (!isRecord(x)) return fail(`${where} must be an object`);
+  if (typeof x.id !== "string") fail(`${where}.id must be a string`);
+  if (typeof x.latex !== "string") fail(`${where}.latex must be a string`);
+  if (index === 0 ? x.parentId !== null : typeof x.parentId !== "string" || !ids.has(x.parentId)) {
+    fail(index === 0 ? "the first step must have parentId null" : `${where}.parentId must name an earlier step`);
+  }
+  if (x.check !== undefined && !(isRecord(x.check) && ["verified", "unverified", "refuted"].includes(x.check.status as string))) {
+    fail(`${where}.check is not a step check`);
+  }
+  return {
+    id: x.id as string,
+    parentId: x.parentId as string | null,
+    latex: x.latex as string,
+    ruleId: optionalString(x, "ruleId", where),
+    ruleName: optionalString(x, "ruleName", where),
+    explanation: optionalString(x, "explanation", where),
+    check: x.check as StepCheck | undefined,
+    at: optionalPath(x, "at", where),
+    changed: Array.isArray(x.changed) && x.changed.every(isPath) ? (x.changed as ExprPath[]) : undefined,
+  };
+}
+
+/** Parse and validate a saved derivation, then replay it against its rule pack. */
+export function importDerivation(json: string): ImportResult {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch (e) {
+    return fail(e instanceof Error ? e.message : String(e));
+  }
+  if (!isRecord(data)) return fail("expected a JSON object");
+  if (data.version !== DERIVATION_FORMAT_VERSION) {
+    throw new Error(`Unsupported derivation format version ${JSON.stringify(data.version)}`);
+  }
+  if (typeof data.packId !== "string") fail("packId must be a string");
+  const pack = findPack(data.packId as string);
+  const planIndex = data.planIndex;
+  if (typeof planIndex !== "number" || !Number.isInteger(planIndex) || !pack.derivations[planIndex]) {
+    fail(`planIndex must pick one of the ${pack.derivations.length} derivations of ${pack.name}`);
+  }
+
+  const tree = data.tree;
+  if (!isRecord(tree) || !Array.isArray(tree.nodes) || tree.nodes.length === 0) {
+    return fail("tree.nodes must be a non-empty array");
+  }
+  const ids = new Set<string>();
+  const stored = tree.nodes.map((n, i) => {
+    const node = readNode(n, i, ids);
+    if (ids.has(node.id)) fail(`duplicate step id ${node.id}`);
+    ids.add(node.id);
+    return node;
+  });
+  // Steps are renumbered the way `addChild` numbers them, so that steps added later cannot reuse an imported id.
+  const renumbered = new Map(stored.map((node, i) => [node.id, String(i)]));
+  const id = (old: unknown) => (typeof old === "string" ? renumbered.get(old) : undefined);
+  const mainLeafId = id(optionalString(tree, "mainLeafId", "tree"));
+  const activeId = id(data.activeId) ?? "0";
+
+  const { nodes, issues } = replay(
+    pack,
+    stored.map((node) => ({ ...node, id: id(node.id)!, parentId: node.parentId === null ? null : id(node.parentId)! }))
+  );
+  // As for links, manual edits are checked again rather than trusting the stored check.
+  nodes.forEach((node, i) => {
+    const parent = nodes.find((n) => n.id === node.parentId);
+    if (node.check && !node.ruleId && parent) nodes[i] = { ...node, ...manualEditStep(parent.latex, node.latex) };
+  });
+  return {
+    file: {
+      version: DERIVATION_FORMAT_VERSION,
+      packId: pack.id,
+      planIndex: planIndex as number,
+      tree: { nodes, mainLeafId },
+      activeId,
+      mrp: readMrp(data.mrp),
+    },
+    issues,
+  };
+}
+
+export function exportDerivation(file: DerivationFile): string {
+  return JSON.stringify(file, null, 2);
+}
+
+const escapeText = (text: string) =>
+  text.replace(/[\\{}$&#^_%~]/g, (c) => (c === "\\" ? "\\textbackslash{}" : `\\${c}`));
+
+/**
+ * A standalone LaTeX document with one `align*` line per step of `steps`,
+ * each labelled with the rule that produced it.
+ */
+export function derivationToLatex(steps: DerivationStep[], pack: RulePack): string {
+  const label = (step: DerivationStep, index: number) => {
+    if (index === 0) return "\\text{start}";
+    const rule = pack.rules.find((r) => r.id === step.ruleId);
+    if (rule?.nameLatex) return rule.nameLatex;
+    const name = rule?.name ?? step.ruleName;
+    return name ? `\\text{${escapeText(name)}}` : "";
+  };
+  const lines = steps.map((step, i) => `  & ${canonicalizeLatex(step.latex)} && ${label(step, i)}`);
+  return [
+    `% ${pack.name}`,
+    "\\documentclass{article}",
+    "\\usepackage{amsmath,amssymb}",
+    "\\begin{document}",
+    "\\begin{align*}",
+    lines.join(" \\\\\n"),
+    "\\end{align*}",
+    "\\end{document}",
+    "",
+  ].join("\n");
+}
+
+/**
+ * Compact step encoding for URLs: the parent's index, then
+ * `"r", ruleId, at?` for rule steps (the LaTeX is replayed), `"m", latex` for
+ * manual edits (re-checked on import) or `"s", latex, ruleName?, explanation?`.
+ */
+type CompactStep = [number, "r", string, ExprPath?] | [number, "m", string] | [number, "s", string, string?, string?];
+
+type CompactDerivation = {
+  v: number;
+  p: string;
+  i: number;
+  a: number;
+  k?: number;
+  /** γ, P, R and optionally the state names */
+  m: [string, string, string, string?];
+  s: CompactStep[];
+};
+
+function toBase64Url(text: string): string {
+  let binary = "";
+  for (const byte of new TextEncoder().encode(text)) binary += String.fromCharCode(byte);
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromBase64Url(encoded: string): string {
+  const binary = atob(encoded.replace(/-/g, "+").replace(/_/g, "/"));
+  return new TextDecoder().decode(Uint8Array.from(binary, (c) => c.charCodeAt(0)));
+}
+
+const HASH_PREFIX = "d=";
+
+/** Encode a derivation for `location.hash` (without the leading `#`). */
+export function encodeShareHash(file: DerivationFile): string {
+  const { nodes } = file.tree;
+  const index = (id: string | undefined) => nodes.findIndex((n) => n.id === id);
+  const compact: CompactDerivation = {
+    v: DERIVATION_FORMAT_VERSION,
+    p: file.packId,
+    i: file.planIndex,
+    a: Math.max(0, index(file.activeId)),
+    k: file.tree.mainLeafId === undefined ? undefined : index(file.tree.mainLeafId),
+    m: file.mrp.states === undefined ? [file.mrp.gamma, file.mrp.P, file.mrp.R] : [file.mrp.gamma, file.mrp.P, file.mrp.R, file.mrp.states],
+    s: nodes.map((n): CompactStep => {
+      const parent = index(n.parentId ?? undefined);
+      if (n.ruleId) return n.at ? [parent, "r", n.ruleId, n.at] : [parent, "r", n.ruleId];
+      if (n.check) return [parent, "m", n.latex];
+      return [parent, "s", n.latex, n.ruleName, n.explanation];
+    }),
+  };
+  return HASH_PREFIX + toBase64Url(JSON.stringify(compact));
+}
+
+/** The MRP of a link, checked as `readMrp` checks the MRP of a file. */
+function readCompactMrp(m: unknown): MrpParams {
+  if (!Array.isArray(m) || m.length < 3 || m.length > 4 || !m.every((x) => typeof x === "string")) {
+    throw new Error("The link's MRP must be γ, P, R and optionally the state names, each as text");
+  }
+  const [gamma, P, R, states] = m as string[];
+  return states === undefined ? { gamma, P, R } : { gamma, P, R, states };
+}
+
+/** Decode a hash made by `encodeShareHash`, or return null if it holds no derivation. */
+export function decodeShareHash(hash: string): ImportResult | null {
+  const body = hash.replace(/^#/, "");
+  if (!body.startsWith(HASH_PREFIX)) return null;
+
+  let compact: CompactDerivation;
+  try {
+    compact = JSON.parse(fromBase64Url(body.slice(HASH_PREFIX.length)));
+  } catch {
+    throw new Error("The link does not contain a readable derivation");
+  }
+  if (compact.v !== DERIVATION_FORMAT_VERSION) {
+    throw new Error(`Unsupported derivation format version ${JSON.stringify(compact.v)}`);
+  }
+  const pack = findPack(compact.p);
+  if (!pack.derivations[compact.i]) throw new Error(`The link names a derivation that ${pack.name} does not have`);
+  if (!Array.isArray(compact.s) || compact.s.length === 0) throw new Error("The link contains no steps");
+  const mrp = readCompactMrp(compact.m);
+
+  const stored: StoredNode[] = [];
+  compact.s.forEach((step, i) => {
+    const [parent, kind, text] = step;
+    const id = String(i);
+    const parentId = i === 0 ? null : String(parent);
+    if (i > 0 && !(parent >= 0 && parent < i)) throw new Error(`Step ${i} of the link has no earlier parent`);
+    if (step[1] === "r") {
+      const at = step[3];
+      if (at !== undefined && !isPath(at)) throw new Error(`Step ${i} of the link selects no valid subexpression`);
+      stored.push(at ? { id, parentId, ruleId: text, at } : { id, parentId, ruleId: text });
+      return;
+    }
+    const [, , , ruleName, explanation] = step as [number, "s", string, string?, string?];
+    if (kind === "m") stored.push({ id, parentId, latex: text });
+    else stored.push({ id, parentId, latex: text, ruleName, explanation });
+  });
+
+  const { nodes, issues } = replay(pack, stored);
+  // Manual edits are checked again once the LaTeX of their parents is known.
+  compact.s.forEach(([parent, kind, text], i) => {
+    if (kind === "m") nodes[i] = { ...nodes[i], ...manualEditStep(nodes[parent].latex, text) };
+  });
+
+  const at = (i: number | undefined) => (i !== undefined && nodes[i] ? nodes[i].id : undefined);
+  return {
+    file: {
+      version: DERIVATION_FORMAT_VERSION,
+      packId: pack.id,
+      planIndex: compact.i,
+      tree: { nodes, mainLeafId: at(compact.k) },
+      activeId: at(compact.a) ?? "0",
+      mrp,
+    },
+    issues,
+  };
+}
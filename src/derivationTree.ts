@@ -0,0 +1,93 @@
+import type { DerivationNode, DerivationStep, DerivationTree } from "./types";
+
+/**
+ * Derivations are stored as a tree: applying a rule to an earlier step adds a
+ * sibling branch instead of discarding the steps that followed it.
+ * All functions are pure and return a new tree.
+ */
+
+export function createTree(start: DerivationStep): DerivationTree {
+  return { nodes: [{ ...start, id: "0", parentId: null }] };
+}
+
+export function getNode(tree: DerivationTree, id: string): DerivationNode {
+  const node = tree.nodes.find((n) => n.id === id);
+  if (!node) throw new Error(`Unknown step ${id}`);
+  return node;
+}
+
+export function childrenOf(tree: DerivationTree, id: string): DerivationNode[] {
+  return tree.nodes.filter((n) => n.parentId === id);
+}
+
+/**
+ * Add `step` below `parentId`. Re-deriving a step that already exists there
+ * (same rule, same result) selects the existing node instead of duplicating it.
+ */
+export function addChild(
+  tree: DerivationTree,
+  parentId: string,
+  step: DerivationStep
+): { tree: DerivationTree; id: string } {
+  const existing = childrenOf(tree, parentId).find(
+    (n) => n.latex === step.latex && n.ruleId === step.ruleId && n.ruleName === step.ruleName
+  );
+  if (existing) return { tree, id: existing.id };
+
+  const id = String(tree.nodes.length);
+  const nodes = [...tree.nodes, { ...step, id, parentId }];
+  // Extending the main proof keeps it the main proof.
+  const extendsMain = tree.mainLeafId === parentId && childrenOf(tree, parentId).length === 0;
+  return { tree: { ...tree, nodes, mainLeafId: extendsMain ? id : tree.mainLeafId }, id };
+}
+
+/** Steps from the start down to `id`, inclusive. */
+export function pathTo(tree: DerivationTree, id: string): DerivationNode[] {
+  const path: DerivationNode[] = [];
+  for (let node: DerivationNode | undefined = getNode(tree, id); node; ) {
+    path.unshift(node);
+    node = node.parentId === null ? undefined : getNode(tree, node.parentId);
+  }
+  return path;
+}
+
+export function isAncestor(tree: DerivationTree, ancestorId: string, id: string): boolean {
+  return pathTo(tree, id).some((n) => n.id === ancestorId);
+}
+
+/** One leaf per branch, in creation order. */
+export function leaves(tree: DerivationTree): DerivationNode[] {
+  const parents = new Set(tree.nodes.map((n) => n.parentId));
+  return tree.nodes.filter((n) => !parents.has(n.id));
+}
+
+/**
+ * The leaf of the branch to show for `id`: `preferredLeafId` if it runs
+ * through `id`, otherwise the most recently created leaf below `id`.
+ */
+export function branchLeaf(tree: DerivationTree, id: string, preferredLeafId?: string): string {
+  if (preferredLeafId && isAncestor(tree, id, preferredLeafId)) return preferredLeafId;
+  let current = id;
+  for (;;) {
+    const kids = childrenOf(tree, current);
+    if (kids.length === 0) return current;
+    current = kids[kids.length - 1].id;
+  }
+}
+
+export function setMainBranch(tree: DerivationTree, leafId: string): DerivationTree {
+  return { ...tree, mainLeafId: leafId };
+}
+
+/** The branch marked as main, falling back to the first branch. */
+export function mainLeaf(tree: DerivationTree): DerivationNode {
+  const all = leaves(tree);
+  return all.find((n) => n.id === tree.mainLeafId) ?? all[0];
+}
+
+/** Number of leading steps two branches have in common. */
+export function sharedPrefixLength(a: DerivationNode[], b: DerivationNode[]): number {
+  let i = 0;
+  while (i < a.length && i < b.length && a[i].id === b[i].id) i++;
+  return i;
+}
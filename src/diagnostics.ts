@@ -0,0 +1,290 @@
+import type { DerivationStep, ExprPath, MathJson, Rewrite, RewriteRule } from "./types";
+import { applicableRules, applyRule, blockedRules, substitute, type Substitution } from "./ruleEngine";
+import { parseLatex } from "./utils/latexParser";
+import { serializeLatex } from "./utils/latexSerializer";
+import { subexpressionAt } from "./utils/exprPath";
+
+/**
+ * Why a rule did not apply, as data rather than an error string: the shapes
+ * the rule looks for, the part of the expression that came closest and where
+ * it diverged, and what to do about it. The closest part is found with a
+ * structural diff of each subexpression against the rule's patterns that
+ * binds wildcards as it goes, so `S_t = s'` against `S_t = s` diverges in one
+ * symbol while an unrelated expression diverges at the root.
+ */
+
+export type Mismatch = {
+  /** Where in the expression the difference is */
+  path: ExprPath;
+  /** What the rule needs there, with known wildcards filled in */
+  expected: string;
+  found: string;
+};
+
+export type Divergence = {
+  /** Subexpression that came closest to the rule's pattern */
+  path: ExprPath;
+  latex: string;
+  mismatches: Mismatch[];
+};
+
+export type RuleFailure = {
+  ruleId: string;
+  ruleName: string;
+  reason: "no-match" | "blocked" | "root-only" | "invalid-input";
+  /** Math in `message` and `suggestions` is between `$` signs */
+  message: string;
+  /** Shapes the rule rewrites, as LaTeX */
+  expected: string[];
+  divergence?: Divergence;
+  suggestions: string[];
+};
+
+export type NearMiss = { rule: RewriteRule; divergence: Divergence; suggestion: string };
+
+export type RuleAttempt = { ok: true; step: DerivationStep } | { ok: false; failure: RuleFailure };
+
+type RawMismatch = {
+  path: ExprPath;
+  expected: MathJson;
+  found: MathJson;
+  /** Inside a sub/superscript, where a difference means another variable or time step */
+  inScript: boolean;
+};
+
+type Diff = { cost: number; mismatches: RawMismatch[]; sub: Substitution };
+
+const isWildcard = (x: MathJson): x is string => typeof x === "string" && x.startsWith("_");
+const isSequence = (x: MathJson) => typeof x === "string" && x.startsWith("__");
+const same = (a: MathJson, b: MathJson) => JSON.stringify(a) === JSON.stringify(b);
+const size = (x: MathJson): number => (Array.isArray(x) ? 1 + x.slice(1).reduce<number>((acc, y) => acc + size(y), 0) : 1);
+
+/** A difference costs the size of what the pattern wanted there. */
+const mismatch = (path: ExprPath, expected: MathJson, found: MathJson, sub: Substitution, inScript: boolean): Diff => ({
+  cost: size(expected),
+  mismatches: [{ path, expected, found, inScript }],
+  sub,
+});
+
+const MAX_ASSIGNMENTS = 720;
+
+/** Injective assignments of `k` pattern operands to `n` operands, capped for wide sums. */
+function assignments(k: number, n: number): number[][] {
+  const out: number[][] = [];
+  const build = (prefix: number[]) => {
+    if (out.length >= MAX_ASSIGNMENTS) return;
+    if (prefix.length === k) {
+      out.push(prefix);
+      return;
+    }
+    for (let j = 0; j < n; j++) if (!prefix.includes(j)) build([...prefix, j]);
+  };
+  build([]);
+  return out;
+}
+
+/** Structural difference of `expr` from `pattern`, matching sums and products in any order. */
+function diff(pattern: MathJson, expr: MathJson, path: ExprPath, sub: Substitution, inScript = false): Diff {
+  if (isWildcard(pattern)) {
+    if (!(pattern in sub)) return { cost: 0, mismatches: [], sub: { ...sub, [pattern]: expr } };
+    return same(sub[pattern], expr) ? { cost: 0, mismatches: [], sub } : mismatch(path, sub[pattern], expr, sub, inScript);
+  }
+  if (!Array.isArray(pattern) || !Array.isArray(expr) || pattern[0] !== expr[0]) {
+    return same(pattern, expr) ? { cost: 0, mismatches: [], sub } : mismatch(path, pattern, expr, sub, inScript);
+  }
+
+  const head = pattern[0];
+  const pArgs = pattern.slice(1);
+  const eArgs = expr.slice(1);
+  const seq = pArgs.find(isSequence) as string | undefined;
+  const fixed = pArgs.filter((p) => !isSequence(p));
+  if (seq ? eArgs.length < fixed.length : eArgs.length !== fixed.length) return mismatch(path, pattern, expr, sub, inScript);
+  const scripted = inScript || head === "Subscript" || head === "Power";
+
+  // Operand j of `expr` sits at index j + 1.
+  const combine = (pairs: [MathJson, number][], rest: number[]): Diff => {
+    let result: Diff = { cost: 0, mismatches: [], sub };
+    for (const [p, j] of pairs) {
+      const d = diff(p, eArgs[j], [...path, j + 1], result.sub, scripted);
+      result = { cost: result.cost + d.cost, mismatches: [...result.mismatches, ...d.mismatches], sub: d.sub };
+    }
+    if (seq) {
+      const restExpr: MathJson = rest.length === 1 ? eArgs[rest[0]] : [head, ...rest.map((j) => eArgs[j])];
+      result = { ...result, sub: { ...result.sub, [seq]: restExpr } };
+    }
+    return result;
+  };
+
+  if (head === "Add" || head === "Multiply") {
+    let best: Diff | null = null;
+    for (const assignment of assignments(fixed.length, eArgs.length)) {
+      const rest = eArgs.map((_, j) => j).filter((j) => !assignment.includes(j));
+      const d = combine(
+        fixed.map((p, i) => [p, assignment[i]]),
+        rest
+      );
+      if (!best || d.cost < best.cost) best = d;
+      if (best.cost === 0) break;
+    }
+    return best ?? mismatch(path, pattern, expr, sub, inScript);
+  }
+
+  // Elsewhere operands keep their order; a sequence wildcard takes the middle.
+  const before = seq ? pArgs.indexOf(seq) : fixed.length;
+  const after = fixed.length - before;
+  const pairs: [MathJson, number][] = fixed.map((p, i) => [p, i < before ? i : eArgs.length - after + (i - before)]);
+  const rest = eArgs.map((_, j) => j).filter((j) => j >= before && j < eArgs.length - after);
+  return combine(pairs, rest);
+}
+
+/** Fill in the wildcards bound so far; unbound ones display by name. */
+function fillKnown(pattern: MathJson, sub: Substitution): MathJson {
+  if (isWildcard(pattern)) return sub[pattern] ?? pattern;
+  if (!Array.isArray(pattern)) return pattern;
+  try {
+    return substitute(pattern, Object.fromEntries(Object.entries(sub).filter(([k]) => !k.startsWith("__"))));
+  } catch {
+    return pattern.map((x, i) => (i === 0 ? x : fillKnown(x, sub)));
+  }
+}
+
+type Closest = { path: ExprPath; node: MathJson; diff: Diff; rewrite: Rewrite };
+
+/** The subexpression within `at` that differs least from one of the rule's patterns. */
+function closest(expr: MathJson, rule: RewriteRule, at: ExprPath, ignoreRootOnly: boolean): Closest | null {
+  let best: Closest | null = null;
+  const visit = (node: MathJson, path: ExprPath) => {
+    for (const rewrite of rule.rewrites) {
+      if (rewrite.rootOnly && !ignoreRootOnly && path.length > 0) continue;
+      const root = Array.isArray(rewrite.match) ? rewrite.match[0] : undefined;
+      // Comparing against nodes of another kind only says "not this", everywhere.
+      if (root !== undefined && (!Array.isArray(node) || node[0] !== root)) continue;
+      const d = diff(rewrite.match, node, path, {});
+      if (!best || d.cost < best.diff.cost) best = { path, node, diff: d, rewrite };
+    }
+    if (Array.isArray(node)) node.slice(1).forEach((x, i) => visit(x, [...path, i + 1]));
+  };
+  const start = subexpressionAt(expr, at);
+  if (start !== undefined) visit(start, at);
+  return best;
+}
+
+function toDivergence(c: Closest): Divergence {
+  return {
+    path: c.path,
+    latex: serializeLatex(c.node),
+    mismatches: c.diff.mismatches.map((m) => ({
+      path: m.path,
+      expected: serializeLatex(fillKnown(m.expected, c.diff.sub)),
+      found: serializeLatex(m.found),
+    })),
+  };
+}
+
+const math = (latex: string) => `$${latex}$`;
+
+const wouldApply = (rule: RewriteRule, d: Divergence) =>
+  `${rule.name} would apply if you wrote ${d.mismatches.map((m) => `${math(m.expected)} instead of ${math(m.found)}`).join(" and ")}`;
+
+/**
+ * Whether the rule almost applies: every difference is a small edit outside
+ * sub/superscripts. Another variable name or time index (`G_t` for `S_t`,
+ * `R_{t+2}` for `R_{t+1}`) is a different quantity, not a slip.
+ */
+const isNearMiss = (c: Closest, maxSize: number) =>
+  c.diff.mismatches.length > 0 &&
+  c.diff.mismatches.every((m) => !m.inScript && size(m.expected) <= maxSize && size(m.found) <= maxSize);
+
+/**
+ * Explain why `rule` does not apply to `latex` (within `at`). `rules` are the
+ * other rules on offer, suggested when they do apply.
+ */
+export function diagnoseRule(latex: string, rule: RewriteRule, at: ExprPath = [], rules: RewriteRule[] = []): RuleFailure {
+  const base = { ruleId: rule.id, ruleName: rule.name, expected: rule.rewrites.map((rw) => serializeLatex(rw.match)) };
+  let expr: MathJson;
+  try {
+    expr = parseLatex(latex);
+  } catch (e) {
+    return {
+      ...base,
+      reason: "invalid-input",
+      message: `The expression cannot be parsed: ${e instanceof Error ? e.message : String(e)}`,
+      suggestions: ["Fix the LaTeX in the text box, then try the rule again."],
+    };
+  }
+  const alternatives = applicableRules(latex, rules, at).filter((r) => r.id !== rule.id);
+  const tryInstead = alternatives.length > 0 ? [`Rules that apply here: ${alternatives.map((r) => r.name).join(", ")}.`] : [];
+
+  const blocked = blockedRules(latex, [rule], at)[0];
+  if (blocked) {
+    return { ...base, reason: "blocked", message: blocked.reasons.join(" "), suggestions: tryInstead };
+  }
+
+  const rootMatch = closest(expr, rule, at, true);
+  if (rootMatch && rootMatch.diff.cost === 0 && rootMatch.rewrite.rootOnly) {
+    return {
+      ...base,
+      reason: "root-only",
+      message: `${rule.name} matches ${math(serializeLatex(rootMatch.node))}, but only rewrites the whole expression.`,
+      divergence: toDivergence(rootMatch),
+      suggestions: [
+        at.length > 0
+          ? "Clear the selection so that the rule sees the whole expression."
+          : "Rewrite the rest of the expression first, so that the whole of it has this shape.",
+        ...tryInstead,
+      ],
+    };
+  }
+
+  const near = closest(expr, rule, at, false);
+  const where = at.length > 0 ? "the selection" : "the expression";
+  if (!near) {
+    return {
+      ...base,
+      reason: "no-match",
+      message: `Nothing in ${where} has the shape ${base.expected.map(math).join(" or ")}.`,
+      suggestions: tryInstead,
+    };
+  }
+  const divergence = toDivergence(near);
+  if (divergence.mismatches.length === 0) {
+    return { ...base, reason: "no-match", message: `${rule.name} does not apply to ${where}.`, divergence, suggestions: tryInstead };
+  }
+  return {
+    ...base,
+    reason: "no-match",
+    message: `The closest part of ${where} is ${math(divergence.latex)}, which differs from what the rule needs.`,
+    divergence,
+    suggestions: [`${wouldApply(rule, divergence)}.`, ...tryInstead],
+  };
+}
+
+/** Apply `rule`, returning a diagnosis instead of throwing when it does not apply. */
+export function tryApplyRule(current: DerivationStep, rule: RewriteRule, at?: ExprPath, rules: RewriteRule[] = []): RuleAttempt {
+  try {
+    return { ok: true, step: applyRule(current, rule, at) };
+  } catch {
+    return { ok: false, failure: diagnoseRule(current.latex, rule, at, rules) };
+  }
+}
+
+/**
+ * Rules that do not apply to `latex` but would after a small edit, with the
+ * edit. `maxSize` bounds the size of what has to change.
+ */
+export function nearMisses(latex: string, rules: RewriteRule[], at: ExprPath = [], maxSize = 2): NearMiss[] {
+  let expr: MathJson;
+  try {
+    expr = parseLatex(latex);
+  } catch {
+    return [];
+  }
+  const applicable = new Set(applicableRules(latex, rules, at).map((r) => r.id));
+  return rules.flatMap((rule) => {
+    if (applicable.has(rule.id)) return [];
+    const c = closest(expr, rule, at, false);
+    if (!c || !isNearMiss(c, maxSize)) return [];
+    const divergence = toDivergence(c);
+    return [{ rule, divergence, suggestion: wouldApply(rule, divergence) }];
+  });
+}
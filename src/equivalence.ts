@@ -0,0 +1,295 @@
+import type { Counterexample, DerivationStep, MathJson, StepCheck } from "./types";
+import { matchPattern } from "./ruleEngine";
+import { parseLatex } from "./utils/latexParser";
+import { serializeLatex } from "./utils/latexSerializer";
+import { identity, matScale, matSub, solveLinearSystem, type Mat, type Vec } from "./utils/matrix";
+import { createRng, randomInt, uniform } from "./utils/random";
+
+/**
+ * Checks a manually edited step against the step it was made from.
+ *
+ * Symbolically, two expressions are the same if Compute Engine matches one
+ * against the other (this allows reordering terms and factors). Otherwise both
+ * are evaluated on random small MRPs: `v`, `r`, `p` and `\gamma` take their
+ * values from the MRP, `\sum_{s'}` ranges over its states, and conditional
+ * expectations of rewards and returns are computed in closed form.
+ */
+
+/** The expression uses notation that has no numeric meaning on an MRP. */
+class Unsupported extends Error {}
+
+type Instance = {
+  P: Mat;
+  R: Vec;
+  gamma: number;
+  V: Vec;
+  /** Lazily filled caches of P^m R and P^m V */
+  PR: Vec[];
+  PV: Vec[];
+};
+
+type Binding = { kind: "state" | "index"; value: number };
+type Env = Map<string, Binding>;
+
+const key = (e: MathJson) => JSON.stringify(e);
+const head = (e: MathJson) => (Array.isArray(e) ? e[0] : undefined);
+
+function randomInstance(rand: () => number): Instance {
+  const n = randomInt(rand, 2, 4);
+  const P = Array.from({ length: n }, () => {
+    const row = Array.from({ length: n }, () => rand() + 0.05);
+    const total = row.reduce((a, b) => a + b, 0);
+    return row.map((x) => x / total);
+  });
+  const R = Array.from({ length: n }, () => uniform(rand, -1, 1));
+  const gamma = uniform(rand, 0.3, 0.9);
+  const V = solveLinearSystem(matSub(identity(n), matScale(P, gamma)), R);
+  return { P, R, gamma, V, PR: [R], PV: [V] };
+}
+
+/** P^m x, memoized in `cache` (cache[0] is x itself). */
+function transitionPower(inst: Instance, cache: Vec[], m: number): Vec {
+  while (cache.length <= m) {
+    const prev = cache[cache.length - 1];
+    cache.push(inst.P.map((row) => row.reduce((acc, p, j) => acc + p * prev[j], 0)));
+  }
+  return cache[m];
+}
+
+function lookup(expr: MathJson, env: Env, kind: Binding["kind"]): number {
+  const b = env.get(key(expr));
+  if (!b || b.kind !== kind) {
+    throw new Unsupported(`${serializeLatex(expr)} is not bound to ${kind === "state" ? "a state" : "a number"}`);
+  }
+  return b.value;
+}
+
+/** Evaluate a time index such as `t+2+k` as an offset from t. */
+function timeOffset(expr: MathJson, env: Env): number {
+  if (expr === "t") return 0;
+  if (typeof expr === "number") return expr;
+  if (typeof expr === "string") return lookup(expr, env, "index");
+  const [op, ...args] = expr;
+  if (op === "Add") return args.reduce((acc: number, a) => acc + timeOffset(a, env), 0);
+  if (op === "Subtract") return timeOffset(args[0], env) - timeOffset(args[1], env);
+  throw new Unsupported(`Cannot read ${serializeLatex(expr)} as a time index`);
+}
+
+function isRandom(expr: MathJson): boolean {
+  if (head(expr) === "Subscript") {
+    const base = (expr as MathJson[])[1];
+    return base === "R" || base === "G";
+  }
+  return Array.isArray(expr) && expr.slice(1).some(isRandom);
+}
+
+/** Terms evaluated in one sum, finite or not, so that a check cannot hang the page. */
+const MAX_TERMS = 5000;
+
+/** Iterate a sum's index over its numeric range; infinite sums stop once the terms vanish. */
+function sumOverIndex(limits: MathJson[], inst: Instance, env: Env, term: (env: Env) => number): number {
+  const [, index, lower, upper] = limits;
+  const lo = evalScalar(lower, inst, env);
+  const hi = upper === "PositiveInfinity" ? Infinity : evalScalar(upper, inst, env);
+  if (hi !== Infinity && hi - lo >= MAX_TERMS) throw new Unsupported(`Sums of more than ${MAX_TERMS} terms are not evaluated`);
+  let total = 0;
+  let small = 0;
+  for (let k = lo; k <= hi; k++) {
+    const value = term(new Map(env).set(key(index), { kind: "index", value: k }));
+    total += value;
+    if (hi === Infinity) {
+      small = Math.abs(value) < 1e-15 ? small + 1 : 0;
+      if (small >= 5 || k - lo > MAX_TERMS) break;
+    }
+  }
+  return total;
+}
+
+/** E[X | S_{t+d} = state] */
+function evalConditional(X: MathJson, d: number, state: number, inst: Instance, env: Env): number {
+  if (!isRandom(X)) return evalScalar(X, inst, env);
+  const [op, ...args] = X as MathJson[];
+  switch (op) {
+    case "Subscript": {
+      const m = timeOffset(args[1], env) - d;
+      if (args[0] === "R") {
+        if (m < 1) throw new Unsupported("A reward at or before the conditioning time is not determined by the state");
+        return transitionPower(inst, inst.PR, m - 1)[state];
+      }
+      if (m < 0) throw new Unsupported("A return before the conditioning time is not determined by the state");
+      return transitionPower(inst, inst.PV, m)[state];
+    }
+    case "Add":
+      return args.reduce((acc: number, a) => acc + evalConditional(a, d, state, inst, env), 0);
+    case "Subtract":
+      return evalConditional(args[0], d, state, inst, env) - evalConditional(args[1], d, state, inst, env);
+    case "Negate":
+      return -evalConditional(args[0], d, state, inst, env);
+    case "Multiply": {
+      const random = args.filter(isRandom);
+      if (random.length > 1) throw new Unsupported("Products of random variables are not supported");
+      return args.reduce(
+        (acc: number, a) => acc * (isRandom(a) ? evalConditional(a, d, state, inst, env) : evalScalar(a, inst, env)),
+        1
+      );
+    }
+    case "Sum": {
+      const limits = args[1];
+      if (head(limits) !== "Tuple" || (limits as MathJson[]).length < 4) {
+        throw new Unsupported("Only sums over a numeric index range are supported inside an expectation");
+      }
+      return sumOverIndex(limits as MathJson[], inst, env, (e) => evalConditional(args[0], d, state, inst, e));
+    }
+    default:
+      throw new Unsupported(`No numeric meaning for ${serializeLatex(X)} inside an expectation`);
+  }
+}
+
+function evalScalar(expr: MathJson, inst: Instance, env: Env): number {
+  if (typeof expr === "number") return expr;
+  if (expr === "gamma") return inst.gamma;
+  if (typeof expr === "string") return lookup(expr, env, "index");
+
+  const [op, ...args] = expr;
+  switch (op) {
+    case "v":
+    case "r":
+      if (args.length !== 1) throw new Unsupported(`${op} takes one state, e.g. ${op}(s)`);
+      return (op === "v" ? inst.V : inst.R)[lookup(args[0], env, "state")];
+    case "p": {
+      const cond = args[0];
+      if (args.length !== 1 || head(cond) !== "Given" || (cond as MathJson[]).length !== 3) {
+        throw new Unsupported("Write transition probabilities as p(s'\\mid s)");
+      }
+      const [, to, from] = cond as MathJson[];
+      return inst.P[lookup(from, env, "state")][lookup(to, env, "state")];
+    }
+    case "Add":
+      return args.reduce((acc: number, a) => acc + evalScalar(a, inst, env), 0);
+    case "Subtract":
+      return evalScalar(args[0], inst, env) - evalScalar(args[1], inst, env);
+    case "Negate":
+      return -evalScalar(args[0], inst, env);
+    case "Multiply":
+      return args.reduce((acc: number, a) => acc * evalScalar(a, inst, env), 1);
+    case "Divide":
+      return evalScalar(args[0], inst, env) / evalScalar(args[1], inst, env);
+    case "Power":
+      return Math.pow(evalScalar(args[0], inst, env), evalScalar(args[1], inst, env));
+    case "Sum": {
+      const limits = args[1];
+      if (head(limits) !== "Tuple") throw new Unsupported("A sum needs an index");
+      const [, index, lower] = limits as MathJson[];
+      if (lower !== undefined) {
+        return sumOverIndex(limits as MathJson[], inst, env, (e) => evalScalar(args[0], inst, e));
+      }
+      // An index without bounds ranges over the states.
+      return inst.V.reduce(
+        (acc: number, _v, i) => acc + evalScalar(args[0], inst, new Map(env).set(key(index), { kind: "state", value: i })),
+        0
+      );
+    }
+    case "Expectation": {
+      if (args.length !== 1 || head(args[0]) !== "Given") {
+        throw new Unsupported("Only conditional expectations E[X | S_t = s] of an MRP can be evaluated");
+      }
+      const [, X, cond] = args[0] as MathJson[];
+      const [, lhs, state] = head(cond) === "Equal" ? (cond as MathJson[]) : [];
+      if (head(lhs) !== "Subscript" || (lhs as MathJson[])[1] !== "S") {
+        throw new Unsupported("Condition expectations on a single state, e.g. S_t = s");
+      }
+      return evalConditional(X, timeOffset((lhs as MathJson[])[2], env), lookup(state, env, "state"), inst, env);
+    }
+    default:
+      throw new Unsupported(`No numeric meaning for ${serializeLatex(expr)} on an MRP`);
+  }
+}
+
+type Evaluation = { ok: true; values: number[] } | { ok: false; state: number; lhs: number; rhs: number };
+
+/** Infinities and NaN never agree, not even with themselves. */
+const close = (a: number, b: number) =>
+  Number.isFinite(a) && Number.isFinite(b) && Math.abs(a - b) <= 1e-8 * Math.max(1, Math.abs(a), Math.abs(b));
+
+/** Value for every choice of the free state s; an equation evaluates to its right-hand side if it holds. */
+function evaluate(expr: MathJson, inst: Instance): Evaluation {
+  const at = (e: MathJson, s: number) => {
+    const x = evalScalar(e, inst, new Map([[key("s"), { kind: "state" as const, value: s }]]));
+    // A division by zero says nothing either way about whether the edit is right.
+    if (!Number.isFinite(x)) throw new Unsupported(`${serializeLatex(e)} has no finite value on some MRPs`);
+    return x;
+  };
+  const states = inst.R.map((_, s) => s);
+  if (head(expr) === "Equal") {
+    const [, lhs, rhs] = expr as MathJson[];
+    for (const s of states) {
+      const l = at(lhs, s);
+      const r = at(rhs, s);
+      if (!close(l, r)) return { ok: false, state: s, lhs: l, rhs: r };
+    }
+    return { ok: true, values: states.map((s) => at(rhs, s)) };
+  }
+  return { ok: true, values: states.map((s) => at(expr, s)) };
+}
+
+function counterexample(inst: Instance, state: number, previous: number, edited: number): Counterexample {
+  return { P: inst.P, R: inst.R, gamma: inst.gamma, state, previous, edited };
+}
+
+export type CheckOptions = { trials?: number; seed?: number };
+
+export function checkEquivalence(previousLatex: string, editedLatex: string, { trials = 6, seed = 1 }: CheckOptions = {}): StepCheck {
+  let previous: MathJson;
+  let edited: MathJson;
+  try {
+    previous = parseLatex(previousLatex);
+    edited = parseLatex(editedLatex);
+  } catch (e) {
+    return { status: "unverified", detail: `Could not parse: ${e instanceof Error ? e.message : String(e)}` };
+  }
+
+  if (matchPattern(edited, previous)) {
+    return { status: "verified", method: "symbolic", detail: "Same expression up to the order of terms and factors." };
+  }
+
+  const rand = createRng(seed);
+  try {
+    for (let trial = 0; trial < trials; trial++) {
+      const inst = randomInstance(rand);
+      const before = evaluate(previous, inst);
+      const after = evaluate(edited, inst);
+      if (!after.ok) {
+        return {
+          status: "refuted",
+          detail: "The two sides of the edited equation differ.",
+          counterexample: counterexample(inst, after.state, after.lhs, after.rhs),
+        };
+      }
+      if (!before.ok) {
+        return { status: "unverified", detail: "The previous step is not a true equation, so there is nothing to compare against." };
+      }
+      const s = before.values.findIndex((v, i) => !close(v, after.values[i]));
+      if (s >= 0) {
+        return {
+          status: "refuted",
+          detail: "The edit changes the value of the expression.",
+          counterexample: counterexample(inst, s, before.values[s], after.values[s]),
+        };
+      }
+    }
+  } catch (e) {
+    if (e instanceof Unsupported) return { status: "unverified", detail: e.message };
+    throw e;
+  }
+  return { status: "verified", method: "numeric", detail: `Agrees with the previous step on ${trials} random MRPs.` };
+}
+
+/** The step recorded when the user types `latex` in place of `previousLatex`. */
+export function manualEditStep(previousLatex: string, latex: string): DerivationStep {
+  return {
+    latex,
+    ruleName: "Manual edit",
+    explanation: "You edited the expression.",
+    check: checkEquivalence(previousLatex, latex),
+  };
+}
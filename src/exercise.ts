@@ -0,0 +1,104 @@
+import type { DerivationNode, DerivationStep, Exercise, RewriteRule, RulePack, StepCheck } from "./types";
+import { blockedRules, matchPattern } from "./ruleEngine";
+import { findDerivation } from "./proofSearch";
+import { parseLatex } from "./utils/latexParser";
+
+/**
+ * Guided exercises: a start, a target and the rules allowed on the way.
+ * The playground records what the student does as events; this module turns
+ * them into a score and turns failed rule attempts into feedback that says
+ * what went wrong rather than repeating the rule engine's error.
+ */
+
+export type ExerciseEvent =
+  | { kind: "rule"; ruleId: string }
+  | { kind: "rule-failed"; ruleId: string }
+  | { kind: "hint" }
+  | { kind: "manual"; status: StepCheck["status"] };
+
+/** Points taken off a perfect score of 100 for each event. */
+export const PENALTIES = {
+  hint: 10,
+  failedAttempt: 5,
+  unverifiedEdit: 10,
+};
+
+export type ExerciseScore = {
+  score: number;
+  hints: number;
+  /** Rules that failed to apply, plus manual edits shown to be wrong */
+  failedAttempts: number;
+  /** Manual edits that could be neither verified nor refuted */
+  unverifiedEdits: number;
+  /** Steps on the current branch */
+  steps: number;
+  complete: boolean;
+};
+
+/** The rules an exercise offers, in the pack's order. */
+export function exerciseRules(exercise: Exercise, pack: RulePack): RewriteRule[] {
+  const allowed = exercise.allowedRules;
+  return allowed ? pack.rules.filter((r) => allowed.includes(r.id)) : pack.rules;
+}
+
+/** Whether `latex` is the exercise's target, up to the order of terms and factors. */
+export function isExerciseComplete(exercise: Exercise, latex: string): boolean {
+  try {
+    return matchPattern(parseLatex(latex), parseLatex(exercise.target)) !== null;
+  } catch {
+    return false;
+  }
+}
+
+/** Steps that changed the expression: rule applications and manual edits, not the start or failures. */
+export function countSteps(branch: DerivationNode[]): number {
+  return branch.filter((n) => n.parentId !== null && (n.ruleId !== undefined || n.check !== undefined)).length;
+}
+
+export function scoreExercise(events: ExerciseEvent[], steps: number, complete: boolean): ExerciseScore {
+  const hints = events.filter((e) => e.kind === "hint").length;
+  const failedAttempts = events.filter(
+    (e) => e.kind === "rule-failed" || (e.kind === "manual" && e.status === "refuted")
+  ).length;
+  const unverifiedEdits = events.filter((e) => e.kind === "manual" && e.status === "unverified").length;
+  const penalty =
+    hints * PENALTIES.hint + failedAttempts * PENALTIES.failedAttempt + unverifiedEdits * PENALTIES.unverifiedEdit;
+  return { score: Math.max(0, 100 - penalty), hints, failedAttempts, unverifiedEdits, steps, complete };
+}
+
+const quote = (name: string | undefined) => `“${name ?? "?"}”`;
+
+/**
+ * Feedback for a rule that failed on `current`. Preference order: a
+ * misconception written for the exercise, the rule's own side condition, and
+ * otherwise where the rule sits on a shortest route to the target.
+ */
+export function failureFeedback(
+  exercise: Exercise,
+  rules: RewriteRule[],
+  current: DerivationStep,
+  rule: RewriteRule,
+  reason: string
+): string {
+  const search = findDerivation(current, exercise.target, rules);
+  const next = search.found ? search.steps[0] : undefined;
+
+  const authored = exercise.misconceptions?.find(
+    (m) => m.ruleId === rule.id && (m.insteadOf === undefined || m.insteadOf === next?.ruleId)
+  );
+  if (authored) return authored.message;
+
+  if (blockedRules(current.latex, [rule]).length > 0) return `${quote(rule.name)} matches, but not here: ${reason}`;
+
+  if (!search.found) {
+    return `${quote(rule.name)} does not apply here, and no allowed rule leads from this step to the target. Go back to an earlier step.`;
+  }
+  if (!next) return `${quote(rule.name)} does not apply here, and you have already reached the target.`;
+  const later = search.steps.findIndex((s) => s.ruleId === rule.id);
+  if (later > 0) {
+    return `You tried ${quote(rule.name)} before ${quote(next.ruleName)}. It will apply ${
+      later === 1 ? "right after that step" : `${later} steps from here`
+    }.`;
+  }
+  return `${quote(rule.name)} does not match this expression, and the way from here to the target does not need it.`;
+}
@@ -0,0 +1,149 @@
+import type { MrpParams } from "./types";
+import { add, fromNumber, mul, ONE, rational, ratToString, sub, ZERO, type Rational } from "./utils/rational";
+
+/**
+ * Gridworlds as MRPs: an agent following the uniform random policy on a grid
+ * with walls and terminal cells, where each move may slip sideways. Cells are
+ * `[row, column]`, numbered from 1 with row 1 at the top, and the state of a
+ * cell is named after it, e.g. r2c3. Probabilities and rewards are written as
+ * exact fractions so that the solver can show V exactly.
+ */
+
+export type Cell = [row: number, col: number];
+
+export type GridworldOptions = {
+  rows: number;
+  cols: number;
+  /** Cells the agent cannot enter; moving into one leaves it where it is */
+  walls?: Cell[];
+  /** Cells where the episode ends, with the reward for entering them */
+  terminals?: { cell: Cell; reward: number }[];
+  /** Probability that a move goes to one of the two perpendicular directions instead, split evenly */
+  slip?: number;
+  /** Reward for every move, including moves that bump into a wall or enter a terminal cell */
+  stepReward?: number;
+  gamma?: number;
+};
+
+/** Longest side of a generated grid. */
+export const GRIDWORLD_MAX_SIDE = 30;
+
+/** Up, right, down, left. */
+const MOVES: Cell[] = [
+  [-1, 0],
+  [0, 1],
+  [1, 0],
+  [0, -1],
+];
+
+const cellName = ([r, c]: Cell) => `r${r}c${c}`;
+const key = ([r, c]: Cell) => `${r},${c}`;
+
+function exact(x: number, what: string): Rational {
+  const q = fromNumber(x);
+  if (!q) throw new Error(`${what} must be a number`);
+  return q;
+}
+
+/** The MRP of the uniform random policy on the grid; terminal cells are absorbing with reward 0. */
+export function gridworld({
+  rows,
+  cols,
+  walls = [],
+  terminals = [],
+  slip = 0,
+  stepReward = 0,
+  gamma = 1,
+}: GridworldOptions): MrpParams {
+  for (const [side, n] of [
+    ["rows", rows],
+    ["columns", cols],
+  ] as const) {
+    if (!Number.isInteger(n) || n < 1 || n > GRIDWORLD_MAX_SIDE) {
+      throw new Error(`The number of ${side} must be a whole number from 1 to ${GRIDWORLD_MAX_SIDE}`);
+    }
+  }
+  if (!(slip >= 0 && slip <= 1)) throw new Error("The slip probability must lie in [0, 1]");
+  if (!(gamma >= 0 && gamma <= 1)) throw new Error("γ must lie in [0, 1]");
+
+  const inside = ([r, c]: Cell) => r >= 1 && r <= rows && c >= 1 && c <= cols;
+  const wallSet = new Set<string>();
+  for (const cell of walls) {
+    if (!inside(cell)) throw new Error(`Wall (${cell.join(", ")}) is outside the ${rows}×${cols} grid`);
+    wallSet.add(key(cell));
+  }
+  const terminalReward = new Map<string, Rational>();
+  for (const { cell, reward } of terminals) {
+    if (!inside(cell)) throw new Error(`Terminal cell (${cell.join(", ")}) is outside the ${rows}×${cols} grid`);
+    if (wallSet.has(key(cell))) throw new Error(`Cell (${cell.join(", ")}) cannot be both a wall and terminal`);
+    terminalReward.set(key(cell), exact(reward, `The reward of (${cell.join(", ")})`));
+  }
+
+  const cells: Cell[] = [];
+  for (let r = 1; r <= rows; r++) {
+    for (let c = 1; c <= cols; c++) if (!wallSet.has(key([r, c]))) cells.push([r, c]);
+  }
+  if (cells.length === 0) throw new Error("Every cell is a wall");
+  const index = new Map(cells.map((cell, i) => [key(cell), i]));
+
+  const step = exact(stepReward, "The step reward");
+  const slipQ = exact(slip, "The slip probability");
+  const sideways = mul(slipQ, rational(1n, 2n));
+  const quarter = rational(1n, 4n);
+  // Each action goes ahead with probability 1 - slip, or sideways with slip/2 each way.
+  const outcomes = (a: number): [Cell, Rational][] => [
+    [MOVES[a], sub(ONE, slipQ)],
+    [MOVES[(a + 1) % 4], sideways],
+    [MOVES[(a + 3) % 4], sideways],
+  ];
+
+  const P = cells.map(() => cells.map(() => ZERO));
+  const R = cells.map(() => ZERO);
+  cells.forEach((cell, i) => {
+    if (terminalReward.has(key(cell))) {
+      P[i][i] = ONE;
+      return;
+    }
+    for (let a = 0; a < 4; a++) {
+      for (const [[dr, dc], q] of outcomes(a)) {
+        const target: Cell = [cell[0] + dr, cell[1] + dc];
+        const j = index.get(key(target)) ?? i;
+        const p = mul(quarter, q);
+        P[i][j] = add(P[i][j], p);
+        R[i] = add(R[i], mul(p, add(step, terminalReward.get(key(cells[j])) ?? ZERO)));
+      }
+    }
+  });
+
+  return {
+    gamma: String(gamma),
+    P: P.map((row) => row.map(ratToString).join(",")).join("\n"),
+    R: R.map(ratToString).join(","),
+    states: cells.map(cellName).join(","),
+  };
+}
+
+/** Cells written as `row,column`, separated by `;` or new lines, e.g. `2,2; 3,2`. */
+export function parseCells(text: string): Cell[] {
+  return entries(text).map((entry) => {
+    const m = /^(\d+)\s*,\s*(\d+)$/.exec(entry);
+    if (!m) throw new Error(`"${entry}" is not a cell; write row,column`);
+    return [Number(m[1]), Number(m[2])];
+  });
+}
+
+/** Terminal cells written as `row,column = reward`, e.g. `1,4 = 1; 2,4 = -1`; the reward defaults to 0. */
+export function parseTerminals(text: string): { cell: Cell; reward: number }[] {
+  return entries(text).map((entry) => {
+    const m = /^(\d+)\s*,\s*(\d+)\s*(?:=\s*(\S+))?$/.exec(entry);
+    const reward = m?.[3] === undefined ? 0 : Number(m[3]);
+    if (!m || !Number.isFinite(reward)) throw new Error(`"${entry}" is not a terminal cell; write row,column = reward`);
+    return { cell: [Number(m[1]), Number(m[2])], reward };
+  });
+}
+
+const entries = (text: string) =>
+  text
+    .split(/[;\n]/)
+    .map((s) => s.trim())
+    .filter((s) => s !== "");
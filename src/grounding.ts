@@ -0,0 +1,82 @@
+import type { MrpModel } from "./mrp";
+import { matchPattern } from "./ruleEngine";
+import { mrpBellmanEquation } from "./rules/mrpBellmanRules";
+import { parseLatex } from "./utils/latexParser";
+import { textLatex } from "./utils/latex";
+import type { Vec } from "./utils/matrix";
+
+/**
+ * "Ground it": the derived MRP Bellman equation written out for every state
+ * of a concrete MRP, its matrix form (I - γP)V = R, and the solved V plugged
+ * back in, to show that the derivation and the linear solve describe the same
+ * equations.
+ */
+
+export type GroundedState = {
+  state: string;
+  /** `v(s) = r(s) + γ Σ p(s'|s) v(s')` with the numbers filled in */
+  equation: string;
+  /** The same equation evaluated at the solved V */
+  check: string;
+  lhs: number;
+  rhs: number;
+};
+
+export type Grounding = {
+  states: GroundedState[];
+  /** `(I - γP) V = R` with the matrices written out */
+  matrixForm: string;
+  /** `I - γP` multiplied out and applied to the solved V, which gives back R */
+  solvedMatrixForm: string;
+  /** Largest |lhs - rhs| over the states */
+  residual: number;
+};
+
+/** Whether `latex` is the MRP Bellman equation, up to the order of terms. */
+export function isMrpBellmanEquation(latex: string): boolean {
+  try {
+    return matchPattern(parseLatex(latex), mrpBellmanEquation) !== null;
+  } catch {
+    return false;
+  }
+}
+
+const num = (x: number) => String(Number(x.toPrecision(4)));
+
+/** A number as a factor, in parentheses when negative. */
+const factor = (x: number) => (x < 0 ? `(${num(x)})` : num(x));
+
+/** A number in a sum: `+ 0.5` or `- 0.5`, or the bare number when first. */
+const signed = (x: number, first: boolean) => (first ? num(x) : x < 0 ? `- ${num(-x)}` : `+ ${num(x)}`);
+
+const bmatrix = (rows: string[][]) => `\\begin{bmatrix}${rows.map((r) => r.join(" & ")).join(" \\\\ ")}\\end{bmatrix}`;
+
+export function groundBellman(model: MrpModel, V: Vec): Grounding {
+  const { P, R, gamma } = model;
+  const v = model.states.map((s) => `v(${textLatex(s)})`);
+  const g = num(gamma);
+
+  const states = model.states.map((state, i): GroundedState => {
+    const successors = P[i].flatMap((p, j) => (p > 0 ? [j] : []));
+    const symbolic = successors.map((j, k) => `${signed(P[i][j], k === 0)}\\,${v[j]}`).join(" ");
+    const numeric = successors.map((j, k) => `${signed(P[i][j], k === 0)} \\cdot ${factor(V[j])}`).join(" ");
+    const rhs = R[i] + gamma * successors.reduce((acc, j) => acc + P[i][j] * V[j], 0);
+    return {
+      state,
+      equation: `${v[i]} = ${num(R[i])} + ${g}\\left(${symbolic || "0"}\\right)`,
+      check: `${num(V[i])} = ${num(R[i])} + ${g}\\left(${numeric || "0"}\\right) = ${num(rhs)}`,
+      lhs: V[i],
+      rhs,
+    };
+  });
+
+  const column = (xs: string[]) => bmatrix(xs.map((x) => [x]));
+  const A = P.map((row, i) => row.map((p, j) => (i === j ? 1 : 0) - gamma * p));
+  const AV = A.map((row) => row.reduce((acc, a, j) => acc + a * V[j], 0));
+  return {
+    states,
+    matrixForm: `\\left(I - ${g} ${bmatrix(P.map((row) => row.map(num)))}\\right) ${column(v)} = ${column(R.map(num))}`,
+    solvedMatrixForm: `${bmatrix(A.map((row) => row.map(num)))} ${column(V.map(num))} = ${column(AV.map(num))}`,
+    residual: states.reduce((acc, s) => Math.max(acc, Math.abs(s.lhs - s.rhs)), 0),
+  };
+}
@@ -0,0 +1,121 @@
+import type { Lesson } from "../types";
+
+/**
+ * Tutorial exercises on the lecture derivations. The first lesson takes the
+ * MRP derivation apart into short exercises before asking for all of it.
+ */
+
+const expectedReturn = "\\mathbb{E}[G_t \\mid S_t = s]";
+const unrolled = "\\mathbb{E}[R_{t+1} + \\gamma \\sum_{k=0}^{\\infty} \\gamma^k R_{t+2+k} \\mid S_t = s]";
+const rewardSplit = "r(s) + \\gamma\\,\\mathbb{E}[\\sum_{k=0}^{\\infty} \\gamma^k R_{t+2+k} \\mid S_t = s]";
+const mrpRhs = "r(s) + \\gamma \\sum_{s'} p(s' \\mid s) v(s')";
+
+export const mrpLesson: Lesson = {
+  id: "mrp-bellman",
+  title: "The MRP Bellman equation",
+  exercises: [
+    {
+      id: "unroll",
+      title: "Unroll the return",
+      prompt: "Write the return as the next reward plus the discounted rest, inside the expectation.",
+      packId: "mrp-bellman",
+      start: { latex: expectedReturn, ruleName: "Start", explanation: "The value of s is the expected return from s." },
+      target: unrolled,
+      allowedRules: ["def-return", "unroll-return", "linearity", "define-r"],
+      maxSteps: 2,
+      misconceptions: [
+        {
+          ruleId: "linearity",
+          message:
+            "Linearity splits the expectation of a sum, but G_t is not written as a sum yet. Expand and unroll the return first.",
+        },
+      ],
+    },
+    {
+      id: "split",
+      title: "Split off the expected reward",
+      prompt: "Separate the next reward from the discounted rest and name its expectation r(s).",
+      packId: "mrp-bellman",
+      start: { latex: unrolled, ruleName: "Start", explanation: "The return unrolled by one step." },
+      target: rewardSplit,
+      allowedRules: ["linearity", "define-r", "total-expectation-next-state", "value-substitution"],
+      maxSteps: 2,
+      misconceptions: [
+        {
+          ruleId: "define-r",
+          insteadOf: "linearity",
+          message:
+            "r(s) is the expectation of R_{t+1} alone. Here R_{t+1} is still one term of a sum inside the expectation, so split the sum with linearity first.",
+        },
+      ],
+    },
+    {
+      id: "next-state",
+      title: "Condition on the next state",
+      prompt: "Turn the expected discounted rest of the return into a weighted sum of next-state values.",
+      packId: "mrp-bellman",
+      start: { latex: rewardSplit, ruleName: "Start", explanation: "The expected reward split off." },
+      target: mrpRhs,
+      allowedRules: ["total-expectation-next-state", "value-substitution", "linearity", "define-r"],
+      maxSteps: 2,
+      misconceptions: [
+        {
+          ruleId: "value-substitution",
+          insteadOf: "total-expectation-next-state",
+          message:
+            "v(s') is an expectation given S_{t+1} = s', but this one is still conditioned on S_t = s. Condition on the next state with the law of total expectation first.",
+        },
+      ],
+    },
+    {
+      id: "full",
+      title: "The whole derivation",
+      prompt: "Derive the Bellman equation for v(s) from its definition.",
+      packId: "mrp-bellman",
+      start: { latex: "v(s)", ruleName: "Start", explanation: "Start from the value function for a state s." },
+      target: `v(s) = ${mrpRhs}`,
+      maxSteps: 8,
+      maxHints: 3,
+    },
+  ],
+};
+
+export const mdpLesson: Lesson = {
+  id: "mdp-bellman",
+  title: "Bellman expectation equations",
+  exercises: [
+    {
+      id: "q-pi",
+      title: "The equation for q_π",
+      prompt: "Derive the Bellman expectation equation for q_π(s, a), ending with q_π of the next state and action.",
+      packId: "mdp-bellman-expectation",
+      start: {
+        latex: "q_\\pi(s,a)",
+        ruleName: "Start",
+        explanation: "Start from the action value of s and a under π.",
+      },
+      target: "q_\\pi(s,a) = r(s,a) + \\gamma \\sum_{s'} p(s'\\mid s,a) \\sum_{a'} \\pi(a'\\mid s') q_\\pi(s',a')",
+      allowedRules: [
+        "def-action-value",
+        "def-value-pi",
+        "condition-on-action",
+        "return-recursion",
+        "linearity",
+        "define-r-sa",
+        "total-expectation-next-state",
+        "value-substitution",
+        "v-from-q",
+        "assemble-bellman-q",
+      ],
+      maxSteps: 8,
+      maxHints: 2,
+      misconceptions: [
+        {
+          ruleId: "linearity",
+          insteadOf: "return-recursion",
+          message: "There is no sum inside the expectation yet. Write G_t as R_{t+1} + γG_{t+1} first.",
+        },
+      ],
+    },
+  ],
+};
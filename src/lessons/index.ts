@@ -0,0 +1,5 @@
+import type { Lesson } from "../types";
+import { mdpLesson, mrpLesson } from "./bellmanLessons";
+
+/** Lessons offered in exercise mode, in lecture order. */
+export const lessons: Lesson[] = [mrpLesson, mdpLesson];
@@ -0,0 +1,133 @@
+/**
+ * DOM-free entry point for scripts and the command line: rule packs, the
+ * rule engine, saved derivations and the MRP solver. Nothing reachable from
+ * here imports React or touches the document.
+ */
+
+export type * from "./types";
+export { registerRulePack, rulePacks } from "./rules";
+export {
+  formatSchemaErrors,
+  parseRulePack,
+  validateRulePack,
+  RULE_PACK_FORMAT,
+  RULE_PACK_FORMAT_VERSION,
+  type DeclarativeRulePack,
+  type RulePackValidation,
+  type SchemaError,
+} from "./rules/declarative";
+export { applicableRules, applyRule, blockedRules, matchPattern, rewriteExpression, ruleErrors } from "./ruleEngine";
+export {
+  diagnoseRule,
+  nearMisses,
+  tryApplyRule,
+  type Divergence,
+  type Mismatch,
+  type NearMiss,
+  type RuleAttempt,
+  type RuleFailure,
+} from "./diagnostics";
+export { parseLatex } from "./utils/latexParser";
+export { serializeLatex } from "./utils/latexSerializer";
+export { locateSelection, subexpressionAt } from "./utils/exprPath";
+export { checkEquivalence } from "./equivalence";
+export { findDerivation } from "./proofSearch";
+export { lessons } from "./lessons";
+export {
+  countSteps,
+  exerciseRules,
+  failureFeedback,
+  isExerciseComplete,
+  scoreExercise,
+  PENALTIES,
+  type ExerciseEvent,
+  type ExerciseScore,
+} from "./exercise";
+export {
+  DERIVATION_FORMAT_VERSION,
+  decodeShareHash,
+  derivationToLatex,
+  encodeShareHash,
+  exportDerivation,
+  findPack as loadRulePack,
+  importDerivation,
+} from "./derivationFile";
+export { replayDerivation, verifyDerivation, type ReplayReport, type StepReport, type VerifyReport } from "./replay";
+export {
+  absorbingStates,
+  DIRECT_SOLVE_MAX_STATES,
+  EXACT_MAX_STATES,
+  effectiveHorizon,
+  exactMrpSystem,
+  explainSingular,
+  mrpSparseSystem,
+  mrpSystem,
+  normalizeRows,
+  readMrp,
+  readMrpJson,
+  recurrentClasses,
+  solveMrp,
+  solveMrpExact,
+  solveMrpSparse,
+  terminalStates,
+  validateMrp,
+  valueSensitivity,
+  valueSweep,
+  type ExactMrp,
+  type MrpInput,
+  type MrpIssue,
+  type MrpModel,
+  type MrpSystem,
+} from "./mrp";
+export {
+  csrFromDense,
+  csrFromRows,
+  csrMatVec,
+  relativeResidual,
+  solveSparse,
+  type Csr,
+  type SparseMethod,
+  type SparseOptions,
+  type SparseSolution,
+} from "./utils/sparse";
+export { addState, mrpCells, removeState, renameState, setReward, setTransition } from "./mrpEdit";
+export { mrpExamples, randomWalk, type MrpExample } from "./mrpLibrary";
+export { gridworld, GRIDWORLD_MAX_SIDE, parseCells, parseTerminals, type Cell, type GridworldOptions } from "./gridworld";
+export { exportMrpCsv, exportMrpJson, importMrp } from "./mrpFile";
+export {
+  estimateValues,
+  sampleEpisode,
+  TD_STEP_SIZE,
+  type EstimationOptions,
+  type EstimationResult,
+  type Estimator,
+} from "./simulation";
+export {
+  conditionNumber,
+  eigenvalues,
+  evaluateIteratively,
+  luDecompose,
+  luSolve,
+  solveLinearSystem,
+  spectralRadius,
+  stationaryDistribution,
+  type Augmented,
+  type Complex,
+  type EliminationStep,
+  type IterativeMethod,
+  type LuFactors,
+  type Mat,
+  type TracedSolution,
+  type Vec,
+} from "./utils/matrix";
+export {
+  parseRational,
+  rational,
+  ratToLatex,
+  ratToString,
+  solveRationalSystem,
+  toNumber,
+  type RatMat,
+  type Rational,
+  type RatVec,
+} from "./utils/rational";
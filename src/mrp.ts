@@ -0,0 +1,471 @@
+import { identity, matScale, matSub, matVec, solveLinearSystem, type Mat, type Vec } from "./utils/matrix";
+import {
+  fromNumber,
+  parseRational,
+  ratIdentity,
+  ratMatScale,
+  ratMatSub,
+  solveRationalSystem,
+  toNumber,
+  ZERO,
+  type RatMat,
+  type Rational,
+  type RatVec,
+} from "./utils/rational";
+import { csrFromRows, solveSparse, type Csr, type SparseOptions, type SparseSolution } from "./utils/sparse";
+
+/**
+ * Markov reward processes as entered by users: validation with a message per
+ * offending cell, absorbing and terminal states, and a solver that explains
+ * why `I - γP` is singular instead of only reporting that it is.
+ */
+
+/** A validated MRP: P is row-stochastic and γ lies in [0, 1]. */
+export type MrpModel = {
+  states: string[];
+  gamma: number;
+  P: Mat;
+  R: Vec;
+  /**
+   * The same numbers as fractions, when every entry was written exactly and
+   * there are at most `EXACT_MAX_STATES` states
+   */
+  exact?: ExactMrp;
+};
+
+export type ExactMrp = { gamma: Rational; P: RatMat; R: RatVec };
+
+export type MrpIssue = {
+  severity: "error" | "warning";
+  field: "gamma" | "P" | "R" | "states";
+  /** 0-based position of the offending entry */
+  row?: number;
+  col?: number;
+  message: string;
+};
+
+export type MrpValidation = {
+  /** The model, when there are no errors */
+  model: MrpModel | null;
+  issues: MrpIssue[];
+  /** P as numbers when every cell parses, even if its rows are not distributions */
+  P: Mat | null;
+};
+
+/**
+ * Raw MRP input: `P` and `R` as CSV text (one row of P per line) or as JSON
+ * arrays, `gamma` as text or a number, `states` as comma-separated names or an
+ * array. States are called s1, s2, ... when no names are given.
+ */
+export type MrpInput = {
+  gamma: unknown;
+  P: unknown;
+  R: unknown;
+  states?: unknown;
+};
+
+/**
+ * Fractions grow during exact elimination, and reading n² cells as BigInt
+ * fractions is slow in itself, so larger MRPs are only read as decimals.
+ */
+export const EXACT_MAX_STATES = 25;
+
+/** Tolerance for a row of P to count as summing to 1. */
+const ROW_SUM_TOLERANCE = 1e-6;
+
+const csvCells = (line: string) => line.split(",").map((c) => c.trim());
+
+/** Numbers as typed, including fractions such as `1/3`. */
+function readNumber(cell: unknown): number | null {
+  if (typeof cell === "number") return Number.isFinite(cell) ? cell : null;
+  if (typeof cell !== "string" || cell.trim() === "") return null;
+  const x = Number(cell);
+  if (Number.isFinite(x)) return x;
+  const q = parseRational(cell);
+  return q ? toNumber(q) : null;
+}
+
+function readExact(cell: unknown): Rational | null {
+  if (typeof cell === "number") return fromNumber(cell);
+  return typeof cell === "string" ? parseRational(cell) : null;
+}
+
+const show = (cell: unknown) => (typeof cell === "string" ? `"${cell}"` : JSON.stringify(cell) ?? String(cell));
+
+const fmt = (x: number) => String(Number(x.toPrecision(6)));
+
+export function validateMrp(input: MrpInput): MrpValidation {
+  const issues: MrpIssue[] = [];
+  const error = (field: MrpIssue["field"], message: string, row?: number, col?: number) =>
+    issues.push({ severity: "error", field, row, col, message });
+
+  const gamma = readNumber(input.gamma);
+  if (gamma === null) error("gamma", `γ = ${show(input.gamma)} is not a number`);
+  else if (gamma < 0 || gamma > 1) error("gamma", `γ = ${fmt(gamma)} must lie in [0, 1]`);
+
+  const rawRows: unknown[][] | null =
+    typeof input.P === "string"
+      ? input.P.trim().split("\n").map(csvCells)
+      : Array.isArray(input.P) && input.P.every(Array.isArray)
+        ? (input.P as unknown[][])
+        : null;
+  if (!rawRows || rawRows.length === 0) {
+    error("P", "P must be a matrix (CSV rows or an array of rows)");
+    return { model: null, issues, P: null };
+  }
+  const n = rawRows.length;
+
+  const states =
+    input.states === undefined || input.states === ""
+      ? Array.from({ length: n }, (_, i) => `s${i + 1}`)
+      : typeof input.states === "string"
+        ? csvCells(input.states)
+        : Array.isArray(input.states)
+          ? input.states.map(String)
+          : null;
+  if (!states) error("states", "States must be comma-separated names or an array of names");
+  else {
+    if (states.length !== n) error("states", `${states.length} state names for ${n} rows of P`);
+    states.forEach((s, i) => {
+      if (s === "") error("states", `State ${i + 1} has no name`, i);
+      else if (states.indexOf(s) !== i) error("states", `State name "${s}" is used twice`, i);
+    });
+  }
+  const name = (i: number) => (states && states.length === n && states[i] ? states[i] : `s${i + 1}`);
+
+  let cellsOk = true;
+  const P = rawRows.map((cells, i) => {
+    if (cells.length !== n) {
+      error("P", `Row ${i + 1} (${name(i)}) has ${cells.length} ${cells.length === 1 ? "entry" : "entries"}; P must be ${n}×${n}`, i);
+      cellsOk = false;
+    }
+    return cells.map((cell, j) => {
+      const x = readNumber(cell);
+      if (x === null) {
+        error("P", `P(${name(i)} → ${name(j)}) = ${show(cell)} is not a number`, i, j);
+        cellsOk = false;
+      } else if (x < 0 || x > 1) {
+        error("P", `P(${name(i)} → ${name(j)}) = ${fmt(x)} is not a probability`, i, j);
+      }
+      return x ?? NaN;
+    });
+  });
+  if (cellsOk) {
+    P.forEach((row, i) => {
+      const total = row.reduce((a, b) => a + b, 0);
+      if (Math.abs(total - 1) > ROW_SUM_TOLERANCE) {
+        error("P", `Row ${i + 1} (${name(i)}) sums to ${fmt(total)} instead of 1`, i);
+      }
+    });
+  }
+
+  const rawR: unknown[] | null =
+    typeof input.R === "string" ? csvCells(input.R) : Array.isArray(input.R) ? input.R : null;
+  let R: Vec = [];
+  if (!rawR) error("R", "R must be a vector (CSV or an array)");
+  else {
+    if (rawR.length !== n) error("R", `R has ${rawR.length} ${rawR.length === 1 ? "entry" : "entries"} for ${n} states`);
+    R = rawR.map((cell, i) => {
+      const x = readNumber(cell);
+      if (x === null) error("R", `R(${name(i)}) = ${show(cell)} is not a number`, i);
+      return x ?? NaN;
+    });
+  }
+
+  if (gamma === 1) {
+    issues.push({
+      severity: "warning",
+      field: "gamma",
+      message: "With γ = 1 values are finite only if every state eventually reaches a terminal state.",
+    });
+  }
+
+  const valid = !issues.some((i) => i.severity === "error");
+  const exact = valid && n <= EXACT_MAX_STATES ? readExactMrp(input.gamma, rawRows, rawR!) : undefined;
+  return {
+    model: valid ? { states: states!, gamma: gamma!, P, R, ...(exact && { exact }) } : null,
+    issues,
+    P: cellsOk ? P : null,
+  };
+}
+
+function readExactMrp(gamma: unknown, P: unknown[][], R: unknown[]): ExactMrp | undefined {
+  const all = <T>(xs: (T | null)[]): xs is T[] => xs.every((x) => x !== null);
+  const g = readExact(gamma);
+  const rows = P.map((row) => row.map(readExact));
+  const r = R.map(readExact);
+  if (!g || !rows.every(all) || !all(r)) return undefined;
+  return { gamma: g, P: rows, R: r };
+}
+
+/** Read and validate an MRP; all errors are reported in one `Error`. */
+export function readMrp(input: MrpInput): MrpModel {
+  const { model, issues } = validateMrp(input);
+  if (!model) {
+    throw new Error(issues.filter((i) => i.severity === "error").map((i) => i.message).join("; "));
+  }
+  return model;
+}
+
+/** Scale every row with a positive sum so that it sums to 1; other rows are left alone. */
+export function normalizeRows(P: Mat): Mat {
+  return P.map((row) => {
+    const total = row.reduce((a, b) => a + b, 0);
+    return total > 0 ? row.map((x) => x / total) : row.slice();
+  });
+}
+
+/** States that the chain never leaves (P(s → s) = 1). */
+export function absorbingStates(P: Mat): number[] {
+  return P.flatMap((row, i) => (Math.abs(row[i] - 1) < 1e-12 ? [i] : []));
+}
+
+/** Absorbing states without reward, where an episode ends: their value is 0. */
+export function terminalStates(model: MrpModel): number[] {
+  return absorbingStates(model.P).filter((i) => model.R[i] === 0);
+}
+
+/** Successors of each state: the transitions with positive probability. */
+const successors = (P: Mat) => P.map((row) => row.flatMap((p, j) => (p > 0 ? [j] : [])));
+
+/** Strongly connected components, by Tarjan's algorithm without recursion; each in no particular order. */
+function components(next: number[][]): number[][] {
+  const n = next.length;
+  const index = Array(n).fill(-1);
+  const low = Array(n).fill(0);
+  const onStack = Array(n).fill(false);
+  const stack: number[] = [];
+  const result: number[][] = [];
+  let counter = 0;
+  for (let root = 0; root < n; root++) {
+    if (index[root] !== -1) continue;
+    // Each frame is a state and the position of the next successor to visit.
+    const frames: [number, number][] = [[root, 0]];
+    index[root] = low[root] = counter++;
+    stack.push(root);
+    onStack[root] = true;
+    while (frames.length > 0) {
+      const frame = frames[frames.length - 1];
+      const [v, k] = frame;
+      if (k < next[v].length) {
+        frame[1]++;
+        const w = next[v][k];
+        if (index[w] === -1) {
+          index[w] = low[w] = counter++;
+          stack.push(w);
+          onStack[w] = true;
+          frames.push([w, 0]);
+        } else if (onStack[w]) {
+          low[v] = Math.min(low[v], index[w]);
+        }
+        continue;
+      }
+      frames.pop();
+      if (frames.length > 0) {
+        const u = frames[frames.length - 1][0];
+        low[u] = Math.min(low[u], low[v]);
+      }
+      if (low[v] === index[v]) {
+        const members: number[] = [];
+        let w: number;
+        do {
+          w = stack.pop()!;
+          onStack[w] = false;
+          members.push(w);
+        } while (w !== v);
+        result.push(members);
+      }
+    }
+  }
+  return result;
+}
+
+/** Closed communicating classes of the chain, each as a sorted list of states. */
+export function recurrentClasses(P: Mat): number[][] {
+  const next = successors(P);
+  const of = Array(P.length).fill(0);
+  const comps = components(next);
+  comps.forEach((members, c) => members.forEach((i) => (of[i] = c)));
+  // A class is closed when no transition leaves it.
+  return comps
+    .filter((members, c) => members.every((i) => next[i].every((j) => of[j] === c)))
+    .map((members) => members.sort((a, b) => a - b))
+    .sort((a, b) => a[0] - b[0]);
+}
+
+/**
+ * Why `I - γP` is singular for this model, or null if it is not. Terminal
+ * states are excluded first, since `solveMrp` fixes their value at 0.
+ */
+export function explainSingular(model: MrpModel): string | null {
+  // With γ < 1 the spectral radius of γP is γ, so I - γP is invertible.
+  if (model.gamma < 1) return null;
+  const names = (ids: number[]) => ids.map((i) => model.states[i]).join(", ");
+  const terminal = new Set(terminalStates(model));
+
+  const rewarding = absorbingStates(model.P).filter((i) => !terminal.has(i));
+  if (rewarding.length > 0) {
+    return `γ = 1 and ${names(rewarding)} ${rewarding.length === 1 ? "is an absorbing state" : "are absorbing states"} with non-zero reward, so the return from there grows without bound (I − γP is singular).`;
+  }
+  const endless = recurrentClasses(model.P).filter((c) => !c.some((i) => terminal.has(i)));
+  if (endless.length > 0) {
+    return `γ = 1 and the chain has a recurrent class without termination ({${endless.map(names).join("}, {")}}): once there it never stops, so the Bellman equation does not determine its values (I − γP is singular).`;
+  }
+  return null;
+}
+
+/**
+ * The linear system `solveMrp` solves: (I - γP)V = R restricted to the states
+ * that are not terminal, listed in `states` in the order of the unknowns.
+ */
+export type MrpSystem<T = number> = { states: number[]; A: T[][]; b: T[] };
+
+const nonTerminal = (model: MrpModel) => {
+  const terminal = new Set(terminalStates(model));
+  return model.states.map((_, i) => i).filter((i) => !terminal.has(i));
+};
+
+export function mrpSystem(model: MrpModel): MrpSystem {
+  const rest = nonTerminal(model);
+  const P = rest.map((i) => rest.map((j) => model.P[i][j]));
+  return { states: rest, A: matSub(identity(rest.length), matScale(P, model.gamma)), b: rest.map((i) => model.R[i]) };
+}
+
+/** `mrpSystem` in fractions; needs the model's exact entries. */
+export function exactMrpSystem(model: MrpModel): MrpSystem<Rational> {
+  const { exact } = model;
+  if (!exact) {
+    throw new Error(
+      model.states.length > EXACT_MAX_STATES
+        ? `Exact fractions are computed for MRPs with at most ${EXACT_MAX_STATES} states`
+        : "The MRP has entries that cannot be read as exact fractions"
+    );
+  }
+  const rest = nonTerminal(model);
+  const P = rest.map((i) => rest.map((j) => exact.P[i][j]));
+  return { states: rest, A: ratMatSub(ratIdentity(rest.length), ratMatScale(P, exact.gamma)), b: rest.map((i) => exact.R[i]) };
+}
+
+/**
+ * V = (I - γP)^{-1} R, with terminal states fixed at 0. For γ < 1 this is
+ * the same as solving the full system; for γ = 1 it is the only way to get a
+ * unique solution when episodes terminate.
+ */
+export function solveMrp(model: MrpModel): Vec {
+  const reason = explainSingular(model);
+  if (reason) throw new Error(reason);
+
+  const { states, A, b } = mrpSystem(model);
+  const V: Vec = model.states.map(() => 0);
+  if (states.length === 0) return V;
+  let x: Vec;
+  try {
+    x = solveLinearSystem(A, b);
+  } catch {
+    throw new Error("I − γP is singular or too ill-conditioned to solve reliably");
+  }
+  states.forEach((i, k) => (V[i] = x[k]));
+  return V;
+}
+
+/**
+ * Up to this many states V is solved directly by dense elimination; larger
+ * MRPs are solved iteratively on a sparse matrix, off the UI thread.
+ */
+export const DIRECT_SOLVE_MAX_STATES = 300;
+
+/** `mrpSystem` as a sparse matrix, built row by row without a dense I - γP. */
+export function mrpSparseSystem(model: MrpModel): { states: number[]; A: Csr; b: Vec } {
+  const rest = nonTerminal(model);
+  const column = new Map(rest.map((i, k) => [i, k]));
+  const rows = rest.map((i, k) => {
+    const row = new Map<number, number>([[k, 1]]);
+    model.P[i].forEach((p, j) => {
+      const c = column.get(j);
+      if (p !== 0 && c !== undefined) row.set(c, (row.get(c) ?? 0) - model.gamma * p);
+    });
+    return [...row].filter(([, v]) => v !== 0);
+  });
+  return { states: rest, A: csrFromRows(rows), b: rest.map((i) => model.R[i]) };
+}
+
+/** V for the model from a solution of `mrpSparseSystem`, with terminal states at 0. */
+export function valuesFromSystem(model: MrpModel, states: number[], x: Vec): Vec {
+  const V: Vec = model.states.map(() => 0);
+  states.forEach((i, k) => (V[i] = x[k]));
+  return V;
+}
+
+/**
+ * `solveMrp` by an iterative sparse solver, for MRPs too large to eliminate
+ * densely. The solution's residuals tell how well V solves the system.
+ */
+export function solveMrpSparse(model: MrpModel, options: SparseOptions = {}): SparseSolution & { V: Vec } {
+  const reason = explainSingular(model);
+  if (reason) throw new Error(reason);
+  const { states, A, b } = mrpSparseSystem(model);
+  const solution = solveSparse(A, b, options);
+  return { ...solution, V: valuesFromSystem(model, states, solution.x) };
+}
+
+/**
+ * `solveMrp` in exact arithmetic: V as reduced fractions. Needs the model's
+ * exact entries, so it fails for input that was not written exactly.
+ */
+export function solveMrpExact(model: MrpModel): RatVec {
+  const reason = explainSingular(model);
+  if (reason) throw new Error(reason);
+
+  const { states, A, b } = exactMrpSystem(model);
+  const V: RatVec = model.states.map(() => ZERO);
+  if (states.length === 0) return V;
+  let x: RatVec;
+  try {
+    x = solveRationalSystem(A, b);
+  } catch {
+    throw new Error("I − γP is singular");
+  }
+  states.forEach((i, k) => (V[i] = x[k]));
+  return V;
+}
+
+/** 1/(1 - γ): the number of steps over which rewards still count, in expectation. */
+export function effectiveHorizon(gamma: number): number {
+  return gamma < 1 ? 1 / (1 - gamma) : Infinity;
+}
+
+/**
+ * dV/dγ, from differentiating (I - γP)V = R: (I - γP) dV/dγ = PV. Terminal
+ * states stay at 0 for every γ, so their derivative is 0 too.
+ */
+export function valueSensitivity(model: MrpModel, V: Vec = solveMrp(model)): Vec {
+  const { states, A } = mrpSystem(model);
+  const dV: Vec = model.states.map(() => 0);
+  if (states.length === 0) return dV;
+  const PV = matVec(model.P, V);
+  const x = solveLinearSystem(A, states.map((i) => PV[i]));
+  states.forEach((i, k) => (dV[i] = x[k]));
+  return dV;
+}
+
+/** V at each γ in `gammas`, or null where the system has no unique solution. */
+export function valueSweep(model: MrpModel, gammas: number[]): { gamma: number; V: Vec | null }[] {
+  return gammas.map((gamma) => {
+    try {
+      return { gamma, V: solveMrp({ ...model, gamma, exact: undefined }) };
+    } catch {
+      return { gamma, V: null };
+    }
+  });
+}
+
+/**
+ * Read an MRP from JSON data: an object with `gamma`, `P`, `R` and optional
+ * `states`, or a saved derivation, whose linked MRP is used.
+ */
+export function readMrpJson(data: unknown): MrpModel {
+  if (typeof data !== "object" || data === null) throw new Error("An MRP must be a JSON object");
+  const obj = data as Record<string, unknown>;
+  if (obj.mrp !== undefined && obj.P === undefined) return readMrpJson(obj.mrp);
+  return readMrp({ gamma: obj.gamma, P: obj.P, R: obj.R, states: obj.states });
+}
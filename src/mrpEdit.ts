@@ -0,0 +1,93 @@
+import type { MrpParams } from "./types";
+
+/**
+ * Edits to an MRP in the text form the panel keeps it in, so that the graph
+ * and the CSV fields stay one source of truth. Cells are kept as typed
+ * (fractions stay fractions); only the cells an edit touches change.
+ */
+
+type Cells = { names: string[]; P: string[][]; R: string[]; named: boolean };
+
+const csvCells = (line: string) => line.split(",").map((c) => c.trim());
+
+/** P, R and the state names as cells; rows and R are padded with "0" to n×n and n. */
+function readCells(params: MrpParams): Cells {
+  const rows = params.P.trim() === "" ? [] : params.P.trim().split("\n").map(csvCells);
+  const n = rows.length;
+  const pad = (cells: string[]) => Array.from({ length: n }, (_, j) => cells[j] ?? "0");
+  const named = (params.states ?? "").trim() !== "";
+  const given = named ? csvCells(params.states!) : [];
+  const R = params.R.trim() === "" ? [] : csvCells(params.R);
+  return {
+    names: Array.from({ length: n }, (_, i) => given[i] || `s${i + 1}`),
+    P: rows.map(pad),
+    R: pad(R),
+    named,
+  };
+}
+
+function writeCells(params: MrpParams, { names, P, R, named }: Cells): MrpParams {
+  return {
+    ...params,
+    P: P.map((row) => row.join(",")).join("\n"),
+    R: R.join(","),
+    states: named ? names.join(",") : params.states,
+  };
+}
+
+/** Names (with the s1, s2, ... defaults filled in), P and R as the cells typed. */
+export function mrpCells(params: MrpParams): { names: string[]; P: string[][]; R: string[] } {
+  const { names, P, R } = readCells(params);
+  return { names, P, R };
+}
+
+/**
+ * Append a state that is absorbing and has no reward, so that every row
+ * still sums to 1; edges into it are added by editing other rows.
+ */
+export function addState(params: MrpParams): MrpParams {
+  const cells = readCells(params);
+  const n = cells.names.length;
+  let name = `s${n + 1}`;
+  for (let k = n + 2; cells.names.includes(name); k++) name = `s${k}`;
+  return writeCells(params, {
+    ...cells,
+    names: [...cells.names, name],
+    P: [...cells.P.map((row) => [...row, "0"]), [...Array(n).fill("0"), "1"]],
+    R: [...cells.R, "0"],
+  });
+}
+
+/**
+ * Remove state `i` with its row and column. Rows that had an edge into it no
+ * longer sum to 1 until they are normalized or edited. The remaining states
+ * keep their names, so unnamed states get explicit ones.
+ */
+export function removeState(params: MrpParams, i: number): MrpParams {
+  const cells = readCells(params);
+  const keep = <T>(xs: T[]) => xs.filter((_, k) => k !== i);
+  return writeCells(params, {
+    names: keep(cells.names),
+    P: keep(cells.P).map(keep),
+    R: keep(cells.R),
+    named: true,
+  });
+}
+
+export function setTransition(params: MrpParams, i: number, j: number, value: string): MrpParams {
+  const cells = readCells(params);
+  const P = cells.P.map((row, r) => (r === i ? row.map((c, k) => (k === j ? value.trim() : c)) : row));
+  return writeCells(params, { ...cells, P });
+}
+
+export function setReward(params: MrpParams, i: number, value: string): MrpParams {
+  const cells = readCells(params);
+  return writeCells(params, { ...cells, R: cells.R.map((c, k) => (k === i ? value.trim() : c)) });
+}
+
+export function renameState(params: MrpParams, i: number, name: string): MrpParams {
+  const cells = readCells(params);
+  // Commas would split the name in the CSV.
+  const names = cells.names.map((s, k) => (k === i ? name.replace(/,/g, "").trim() : s));
+  return writeCells(params, { ...cells, names, named: true });
+}
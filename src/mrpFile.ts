@@ -0,0 +1,133 @@
+import type { MrpParams } from "./types";
+
+/**
+ * MRPs as files, for problem sets: JSON in the shape `bellman solve` reads,
+ * and CSV that opens in a spreadsheet. Cells are written as typed, so
+ * fractions stay fractions, and are checked by the panel once loaded rather
+ * than here.
+ *
+ * The CSV has γ on its first line, then a header naming the states, then
+ * one line per state with its reward and its row of P:
+ *
+ *     gamma,0.9
+ *     state,R,s1,s2
+ *     s1,1,0.5,0.5
+ *     s2,0,0.2,0.8
+ */
+
+const csvCells = (line: string) => line.split(",").map((c) => c.trim().replace(/^"(.*)"$/, "$1"));
+
+const fail = (message: string): never => {
+  throw new Error(`Not an MRP file: ${message}`);
+};
+
+/** A cell as a JSON number when it reads back as the same text, else as the string typed. */
+const jsonCell = (cell: string): string | number => (cell !== "" && String(Number(cell)) === cell ? Number(cell) : cell);
+
+function splitMrp({ P, R, states }: MrpParams) {
+  const rows = P.trim() === "" ? [] : P.trim().split("\n").map(csvCells);
+  const named = (states ?? "").trim() !== "";
+  return {
+    rows,
+    R: R.trim() === "" ? [] : csvCells(R),
+    names: named ? csvCells(states!) : rows.map((_, i) => `s${i + 1}`),
+    named,
+  };
+}
+
+export function exportMrpJson(mrp: MrpParams): string {
+  const { rows, R, names, named } = splitMrp(mrp);
+  const data = {
+    gamma: jsonCell(mrp.gamma.trim()),
+    ...(named && { states: names }),
+    P: rows.map((row) => row.map(jsonCell)),
+    R: R.map(jsonCell),
+  };
+  // One row of P per line keeps large matrices readable.
+  return JSON.stringify(data, null, 2).replace(
+    /\[\n\s*([^[\]]*?)\n\s*\]/g,
+    (_, cells: string) => `[${cells.replace(/\n\s*/g, " ")}]`
+  );
+}
+
+export function exportMrpCsv(mrp: MrpParams): string {
+  const { rows, R, names } = splitMrp(mrp);
+  const lines = [
+    `gamma,${mrp.gamma.trim()}`,
+    ["state", "R", ...names].join(","),
+    ...rows.map((row, i) => [names[i] ?? `s${i + 1}`, R[i] ?? "", ...row].join(",")),
+  ];
+  return lines.join("\n") + "\n";
+}
+
+/** Text of a cell, a row of cells, or CSV text, as read from JSON. */
+function cellText(x: unknown, where: string): string {
+  if (typeof x === "number" || typeof x === "string") return String(x);
+  return fail(`${where} must be a number or a string`);
+}
+
+function listText(x: unknown, where: string): string {
+  if (typeof x === "string") return x;
+  if (!Array.isArray(x)) return fail(`${where} must be a list or CSV text`);
+  return x.map((cell, i) => cellText(cell, `${where}[${i}]`)).join(",");
+}
+
+/** State names as CSV text; commas inside a name are dropped, as when a state is renamed, since they would split it. */
+function stateNames(x: unknown): string {
+  if (!Array.isArray(x)) return listText(x, "states");
+  return x.map((name, i) => cellText(name, `states[${i}]`).replace(/,/g, "").trim()).join(",");
+}
+
+function readJson(text: string): MrpParams {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (e) {
+    return fail(e instanceof Error ? e.message : String(e));
+  }
+  if (typeof data !== "object" || data === null || Array.isArray(data)) return fail("expected a JSON object");
+  let obj = data as Record<string, unknown>;
+  // A saved derivation carries its MRP along.
+  if (obj.P === undefined && typeof obj.mrp === "object" && obj.mrp !== null) obj = obj.mrp as Record<string, unknown>;
+  if (obj.P === undefined || obj.R === undefined || obj.gamma === undefined) return fail("expected gamma, P and R");
+
+  const P =
+    typeof obj.P === "string"
+      ? obj.P
+      : Array.isArray(obj.P)
+        ? obj.P.map((row, i) => listText(row, `P[${i}]`)).join("\n")
+        : fail("P must be a list of rows or CSV text");
+  const mrp: MrpParams = { gamma: cellText(obj.gamma, "gamma"), P, R: listText(obj.R, "R") };
+  return obj.states === undefined ? mrp : { ...mrp, states: stateNames(obj.states) };
+}
+
+function readCsv(text: string): MrpParams {
+  const lines = text
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line !== "");
+  const [gammaLine, header, ...body] = lines.map(csvCells);
+  if (!gammaLine || gammaLine[0].toLowerCase() !== "gamma" || gammaLine.length !== 2) {
+    return fail("the first line must be gamma,<value>");
+  }
+  if (!header || header[0].toLowerCase() !== "state" || header[1] !== "R") {
+    return fail("the second line must be the header state,R,<state names>");
+  }
+  const names = header.slice(2);
+  if (body.length !== names.length) fail(`the header names ${names.length} states but there are ${body.length} rows`);
+  body.forEach(([name], i) => {
+    if (name !== names[i]) fail(`row ${i + 1} is for "${name}" but column ${i + 1} of P is "${names[i]}"`);
+  });
+  const unnamed = names.every((name, i) => name === `s${i + 1}`);
+  const mrp: MrpParams = {
+    gamma: gammaLine[1],
+    P: body.map((cells) => cells.slice(2).join(",")).join("\n"),
+    R: body.map((cells) => cells[1] ?? "").join(","),
+  };
+  return unnamed ? mrp : { ...mrp, states: names.join(",") };
+}
+
+/** Read an MRP exported as JSON or CSV, or the MRP of a saved derivation; the format is told by the content. */
+export function importMrp(text: string): MrpParams {
+  return /^[[{]/.test(text.trim()) ? readJson(text) : readCsv(text);
+}
@@ -0,0 +1,119 @@
+import type { MrpParams } from "./types";
+import { gridworld } from "./gridworld";
+
+/**
+ * Standard course MRPs, ready to load into the linear algebra panel. Entries
+ * are written as fractions where the textbook has them, so V comes out exact.
+ */
+
+export type MrpExample = {
+  id: string;
+  name: string;
+  /** Where the example comes from and what it shows, in a sentence or two */
+  description: string;
+  mrp: MrpParams;
+};
+
+const rows = (P: (string | number)[][]) => P.map((row) => row.join(",")).join("\n");
+
+/** Letters A, B, ... for up to 26 states, s1, s2, ... beyond. */
+const walkName = (i: number, n: number) => (n <= 26 ? String.fromCharCode(65 + i) : `s${i + 1}`);
+
+/**
+ * A random walk over `n` states in a row between two terminal states: each
+ * step goes left or right with probability 1/2, and stepping off the left or
+ * right end pays `left` or `right`. R is the expected reward of one step, so
+ * only the two end states of the walk have a non-zero reward.
+ */
+export function randomWalk(n: number, { left = 0, right = 1, gamma = 1 } = {}): MrpParams {
+  if (!Number.isInteger(n) || n < 1) throw new Error("A random walk needs at least one state");
+  const size = n + 2;
+  const P = Array.from({ length: size }, (_, i) =>
+    Array.from({ length: size }, (_, j) => {
+      if (i === 0 || i === size - 1) return i === j ? "1" : "0";
+      return Math.abs(i - j) === 1 ? "1/2" : "0";
+    })
+  );
+  const half = (x: number) => (x === 0 ? 0 : Number.isInteger(x) ? `${x}/2` : x / 2);
+  const R = Array.from({ length: size }, (_, i) => {
+    if (i === 0 || i === size - 1) return 0;
+    return n === 1 ? half(left + right) : i === 1 ? half(left) : i === n ? half(right) : 0;
+  });
+  const names = ["left", ...Array.from({ length: n }, (_, i) => walkName(i, n)), "right"];
+  return { gamma: String(gamma), P: rows(P), R: R.join(","), states: names.join(",") };
+}
+
+export const mrpExamples: MrpExample[] = [
+  {
+    id: "two-state",
+    name: "Two states",
+    description: "The smallest interesting MRP: one rewarding state and one that mostly stays put.",
+    mrp: { gamma: "0.9", P: "0.5,0.5\n0.2,0.8", R: "1,0" },
+  },
+  {
+    id: "student",
+    name: "Student MRP",
+    description:
+      "David Silver's lecture example: three classes, the pub, Facebook, passing and sleep. At γ = 0.9, v(C1) ≈ -5.0 and v(FB) ≈ -7.6.",
+    mrp: {
+      gamma: "0.9",
+      states: "C1,C2,C3,Pass,Pub,FB,Sleep",
+      P: rows([
+        [0, "1/2", 0, 0, 0, "1/2", 0],
+        [0, 0, "4/5", 0, 0, 0, "1/5"],
+        [0, 0, 0, "3/5", "2/5", 0, 0],
+        [0, 0, 0, 0, 0, 0, 1],
+        ["1/5", "2/5", "2/5", 0, 0, 0, 0],
+        ["1/10", 0, 0, 0, 0, "9/10", 0],
+        [0, 0, 0, 0, 0, 0, 1],
+      ]),
+      R: "-2,-2,-2,10,1,-1,0",
+    },
+  },
+  {
+    id: "random-walk-5",
+    name: "Random walk (5 states)",
+    description:
+      "Sutton & Barto's Example 6.2: A to E between two terminals, reward 1 for leaving on the right. The true values are 1/6 to 5/6.",
+    mrp: randomWalk(5),
+  },
+  {
+    id: "random-walk-19",
+    name: "Random walk (19 states)",
+    description:
+      "Sutton & Barto's n-step TD testbed (Example 7.1): 19 states, reward -1 on the left and +1 on the right, so V runs linearly from -0.9 to 0.9.",
+    mrp: randomWalk(19, { left: -1, right: 1 }),
+  },
+  {
+    id: "gridworld-4x4",
+    name: "Gridworld 4×4",
+    description:
+      "Sutton & Barto's Example 4.1: the equiprobable random policy, -1 per move and terminal corners; v(r1c2) = -14 and v(r2c2) = -18.",
+    mrp: gridworld({
+      rows: 4,
+      cols: 4,
+      terminals: [
+        { cell: [1, 1], reward: 0 },
+        { cell: [4, 4], reward: 0 },
+      ],
+      stepReward: -1,
+    }),
+  },
+  {
+    id: "gridworld-3x4",
+    name: "Gridworld 3×4 with slip",
+    description:
+      "Russell & Norvig's 4×3 world under the uniform random policy: a wall at (2,2), +1 and -1 exits, moves slip sideways with probability 0.2 and cost 0.04.",
+    mrp: gridworld({
+      rows: 3,
+      cols: 4,
+      walls: [[2, 2]],
+      terminals: [
+        { cell: [1, 4], reward: 1 },
+        { cell: [2, 4], reward: -1 },
+      ],
+      slip: 0.2,
+      stepReward: -0.04,
+    }),
+  },
+];
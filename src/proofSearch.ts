@@ -0,0 +1,79 @@
+import type { DerivationStep, RewriteRule } from "./types";
+import { applicableRules, applyRule } from "./ruleEngine";
+import { parseLatex } from "./utils/latexParser";
+import { serializeLatex } from "./utils/latexSerializer";
+
+export type SearchOptions = {
+  /** Longest rule sequence to consider */
+  maxDepth?: number;
+  /** Stop after this many distinct expressions have been expanded */
+  maxStates?: number;
+};
+
+export type SearchResult =
+  | { found: true; steps: DerivationStep[]; explored: number }
+  | {
+      found: false;
+      /** True when every reachable expression was explored, i.e. no path exists at all */
+      exhausted: boolean;
+      explored: number;
+    };
+
+/** Serialized form used to compare and deduplicate expressions; unparsable input is kept verbatim. */
+function stateKey(latex: string): string {
+  try {
+    return serializeLatex(parseLatex(latex));
+  } catch {
+    return latex;
+  }
+}
+
+/**
+ * Breadth-first search over rule applications from `start` to `goalLatex`.
+ * Expressions are deduplicated by their serialized form, so the path found
+ * is a shortest one and rules that undo each other cannot loop.
+ */
+export function findDerivation(
+  start: DerivationStep,
+  goalLatex: string,
+  rules: RewriteRule[],
+  { maxDepth = 12, maxStates = 2000 }: SearchOptions = {}
+): SearchResult {
+  const goal = stateKey(goalLatex);
+  type Entry = { step: DerivationStep; path: DerivationStep[] };
+
+  const seen = new Set<string>([stateKey(start.latex)]);
+  let frontier: Entry[] = [{ step: start, path: [] }];
+  let explored = 0;
+  let truncated = false;
+
+  if (seen.has(goal)) return { found: true, steps: [], explored };
+
+  for (let depth = 0; frontier.length > 0; depth++) {
+    if (depth === maxDepth) {
+      truncated = true;
+      break;
+    }
+    const next: Entry[] = [];
+    for (const { step, path } of frontier) {
+      if (explored === maxStates) return { found: false, exhausted: false, explored };
+      explored++;
+      for (const rule of applicableRules(step.latex, rules)) {
+        let child: DerivationStep;
+        try {
+          child = applyRule(step, rule);
+        } catch {
+          continue;
+        }
+        const key = stateKey(child.latex);
+        if (seen.has(key)) continue;
+        seen.add(key);
+        const childPath = [...path, child];
+        if (key === goal) return { found: true, steps: childPath, explored };
+        next.push({ step: child, path: childPath });
+      }
+    }
+    frontier = next;
+  }
+  return { found: false, exhausted: !truncated, explored };
+}
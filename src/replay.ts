@@ -0,0 +1,105 @@
+import type { StepCheck } from "./types";
+import { findPack, importDerivation, rederive, sameExpression } from "./derivationFile";
+import { checkEquivalence } from "./equivalence";
+import { getNode, mainLeaf, pathTo } from "./derivationTree";
+import { lessons } from "./lessons";
+
+/**
+ * Step-by-step reports on saved derivations, for checking them outside the
+ * browser. Every step without a rule is checked again as a manual edit,
+ * including steps the file records no check for, and the first step must be
+ * where the plan or one of the pack's exercises starts.
+ */
+
+export type StepStatus =
+  /** The first step, where the plan or an exercise starts */
+  | "start"
+  /** The rule gives the recorded LaTeX */
+  | "reproduced"
+  /** The rule applies but gives different LaTeX */
+  | "changed"
+  /** The rule is missing or no longer applies, or the first step is not a start */
+  | "failed"
+  /** A step without a rule, checked as a manual edit; see `check` */
+  | "manual";
+
+export type StepReport = {
+  id: string;
+  parentId: string | null;
+  ruleId?: string;
+  ruleName?: string;
+  /** Recorded LaTeX */
+  latex: string;
+  /** LaTeX the rule produces from the recorded parent today */
+  replayed?: string;
+  status: StepStatus;
+  detail?: string;
+  check?: StepCheck;
+};
+
+export type ReplayReport = {
+  /** No step failed, changed, or is a refuted manual edit */
+  ok: boolean;
+  packId: string;
+  planIndex: number;
+  steps: StepReport[];
+  /** Step ids of the main proof, from the start */
+  mainBranch: string[];
+};
+
+export type VerifyReport = {
+  ok: boolean;
+  packId: string;
+  steps: number;
+  failures: StepReport[];
+};
+
+const isFailure = (step: StepReport) =>
+  step.status === "changed" || step.status === "failed" || step.check?.status === "refuted";
+
+/** Replay a saved derivation (JSON text); throws if the file itself is invalid. */
+export function replayDerivation(json: string): ReplayReport {
+  const { file } = importDerivation(json);
+  const pack = findPack(file.packId);
+  const { tree } = file;
+  const starts = [
+    pack.derivations[file.planIndex].start.latex,
+    ...lessons.flatMap((l) => l.exercises).filter((e) => e.packId === pack.id).map((e) => e.start.latex),
+  ];
+
+  const steps = tree.nodes.map((node): StepReport => {
+    const { id, parentId, ruleId, ruleName, latex } = node;
+    const base = { id, parentId, ruleId, ruleName, latex };
+    if (parentId === null) {
+      return starts.some((start) => sameExpression(start, latex))
+        ? { ...base, status: "start" }
+        : { ...base, status: "failed", detail: `${pack.name} has no derivation or exercise that starts here.` };
+    }
+
+    const parent = getNode(tree, parentId);
+    if (ruleId) {
+      const result = rederive(pack, parent, ruleId, node.at);
+      if (!result.ok) return { ...base, status: "failed", detail: result.error };
+      const replayed = result.step.latex;
+      return sameExpression(replayed, latex)
+        ? { ...base, replayed, status: "reproduced" }
+        : { ...base, replayed, status: "changed", detail: "The rule gives a different result from the recorded one." };
+    }
+    const check = checkEquivalence(parent.latex, latex);
+    return { ...base, status: "manual", detail: check.detail, check };
+  });
+
+  return {
+    ok: !steps.some(isFailure),
+    packId: pack.id,
+    planIndex: file.planIndex,
+    steps,
+    mainBranch: pathTo(tree, mainLeaf(tree).id).map((n) => n.id),
+  };
+}
+
+/** Replay a saved derivation and keep only the steps that do not check out. */
+export function verifyDerivation(json: string): VerifyReport {
+  const report = replayDerivation(json);
+  return { ok: report.ok, packId: report.packId, steps: report.steps.length, failures: report.steps.filter(isFailure) };
+}
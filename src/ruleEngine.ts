@@ -1,21 +1,282 @@
-import type { DerivationStep, RewriteRule } from "./types";
+import { ComputeEngine, type SemiBoxedExpression } from "@cortex-js/compute-engine";
+import type { DerivationStep, ExprPath, MathJson, Precondition, Rewrite, RewriteRule } from "./types";
+import { parseLatex } from "./utils/latexParser";
+import { latexToText } from "./utils/latex";
+import { serializeLatex } from "./utils/latexSerializer";
+import { replaceAt, subexpressionAt } from "./utils/exprPath";
 
-export function applicableRules(latex: string, rules: RewriteRule[]): RewriteRule[] {
+/** Wildcard bindings produced by a successful match, keyed by wildcard name. */
+export type Substitution = Record<string, MathJson>;
+
+// Boxing is kept non-canonical throughout: canonical forms would reorder and
+// simplify the lecture expressions before the rules ever see them.
+const ce = new ComputeEngine();
+
+// MathJson arrays always start with an operator name, as Compute Engine expects.
+const box = (expr: MathJson) => ce.box(expr as SemiBoxedExpression, { canonical: false });
+
+export function matchPattern(expr: MathJson, pattern: MathJson): Substitution | null {
+  const m = box(expr).match(box(pattern), { useVariations: false });
+  if (!m) return null;
+  const sub: Substitution = {};
+  for (const [name, value] of Object.entries(m)) sub[name] = value.json as MathJson;
+  return sub;
+}
+
+const isWildcard = (s: string) => s.startsWith("_");
+
+/**
+ * Instantiate a replacement template. Sequence wildcards (`__X`) bind to the
+ * whole remainder, e.g. `["Multiply", a, b]`, so nested `Add`/`Multiply`
+ * operands are flattened back into their parent.
+ */
+export function substitute(template: MathJson, sub: Substitution): MathJson {
+  if (typeof template === "number") return template;
+  if (typeof template === "string") {
+    if (!isWildcard(template)) return template;
+    if (!(template in sub)) throw new Error(`Replacement uses unbound wildcard ${template}`);
+    return sub[template];
+  }
+  const [head, ...args] = template;
+  const out: MathJson[] = [substitute(head, sub)];
+  for (const arg of args) {
+    const value = substitute(arg, sub);
+    if ((head === "Add" || head === "Multiply") && Array.isArray(value) && value[0] === head) {
+      out.push(...value.slice(1));
+    } else {
+      out.push(value);
+    }
+  }
+  return out;
+}
+
+function mentions(expr: MathJson, target: MathJson): boolean {
+  if (JSON.stringify(expr) === JSON.stringify(target)) return true;
+  return Array.isArray(expr) && expr.slice(1).some((arg) => mentions(arg, target));
+}
+
+/** Replace `{_X}` placeholders in a precondition message with the bound expression. */
+export function fillBindings(message: string, sub: Substitution): string {
+  return message.replace(/\{(_+\w+)\}/g, (whole, name: string) =>
+    name in sub ? latexToText(serializeLatex(sub[name])) : whole
+  );
+}
+
+function preconditionHolds(pre: Precondition, sub: Substitution): boolean {
+  const bound = sub[pre.wildcard];
+  if (bound === undefined) return true;
+  switch (pre.kind) {
+    case "free-of":
+      return !mentions(bound, sub[pre.of] ?? pre.of);
+    case "one-of":
+      return pre.values.some((v) => JSON.stringify(v) === JSON.stringify(bound));
+  }
+}
+
+type Attempt = { ok: true; sub: Substitution } | { ok: false; reason: string } | null;
+
+/** Match one rewrite at one node; a match whose preconditions fail is reported, not applied. */
+function attempt(node: MathJson, rw: Rewrite, isRoot: boolean): Attempt {
+  if (rw.rootOnly && !isRoot) return null;
+  const sub = matchPattern(node, rw.match);
+  if (!sub) return null;
+  const failed = (rw.preconditions ?? []).find((pre) => !preconditionHolds(pre, sub));
+  return failed ? { ok: false, reason: fillBindings(failed.failure, sub) } : { ok: true, sub };
+}
+
+export type RewriteResult = {
+  expr: MathJson;
+  count: number;
+  /** Paths of the replaced subexpressions in `expr` */
+  changed: ExprPath[];
+  /** Justifications of the preconditions that were checked for the applied rewrites */
+  justifications: string[];
+  /** Failure messages of matches that were rejected by a precondition */
+  blocked: string[];
+};
+
+/**
+ * Rewrite every outermost subexpression matched by one of `rewrites`, within
+ * the subexpression at `at` (the whole expression by default). Replaced
+ * subtrees are not searched again, so one application is one step.
+ */
+export function rewriteExpression(expr: MathJson, rewrites: Rewrite[], at: ExprPath = []): RewriteResult {
+  const justifications = new Set<string>();
+  const blocked = new Set<string>();
+  const changed: ExprPath[] = [];
+
+  const visit = (node: MathJson, path: ExprPath): { expr: MathJson; count: number } => {
+    for (const rw of rewrites) {
+      const a = attempt(node, rw, path.length === 0);
+      if (!a) continue;
+      if (!a.ok) {
+        blocked.add(a.reason);
+        continue;
+      }
+      for (const pre of rw.preconditions ?? []) justifications.add(fillBindings(pre.justification, a.sub));
+      changed.push(path);
+      return { expr: substitute(rw.replace, a.sub), count: 1 };
+    }
+    if (!Array.isArray(node)) return { expr: node, count: 0 };
+
+    let count = 0;
+    const [head, ...args] = node;
+    const next = args.map((arg, i) => {
+      const r = visit(arg, [...path, i + 1]);
+      count += r.count;
+      return r.expr;
+    });
+    return { expr: count > 0 ? [head, ...next] : node, count };
+  };
+  const target = subexpressionAt(expr, at);
+  if (target === undefined) throw new Error("The selected subexpression is not part of this expression");
+  const { expr: next, count } = visit(target, at);
+  return {
+    expr: count > 0 ? replaceAt(expr, at, next) : expr,
+    count,
+    changed,
+    justifications: [...justifications],
+    blocked: [...blocked],
+  };
+}
+
+/** Whether `rule` applies somewhere in `expr` (within `at`), and why blocked matches were rejected. */
+export function probeRule(expr: MathJson, rule: RewriteRule, at: ExprPath = []): { applies: boolean; blocked: string[] } {
+  const blocked = new Set<string>();
+  const search = (node: MathJson, isRoot: boolean): boolean => {
+    for (const rw of rule.rewrites) {
+      const a = attempt(node, rw, isRoot);
+      if (a?.ok) return true;
+      if (a) blocked.add(a.reason);
+    }
+    return Array.isArray(node) && node.slice(1).some((arg) => search(arg, false));
+  };
+  const target = subexpressionAt(expr, at);
+  const applies = target !== undefined && search(target, at.length === 0);
+  return { applies, blocked: applies ? [] : [...blocked] };
+}
+
+export function ruleMatches(expr: MathJson, rule: RewriteRule, at: ExprPath = []): boolean {
+  return probeRule(expr, rule, at).applies;
+}
+
+export function applicableRules(latex: string, rules: RewriteRule[], at: ExprPath = []): RewriteRule[] {
+  let expr: MathJson;
+  try {
+    expr = parseLatex(latex);
+  } catch {
+    return [];
+  }
   return rules.filter((r) => {
     try {
-      return r.appliesTo(latex);
+      return ruleMatches(expr, r, at);
     } catch {
       return false;
     }
   });
 }
 
-export function applyRule(current: DerivationStep, rule: RewriteRule): DerivationStep {
-  const nextLatex = rule.transform(current.latex);
+/**
+ * Rules that raise while being matched against `latex`, with the error.
+ * `applicableRules` and `blockedRules` leave these out, so a broken rule
+ * would otherwise just never show up.
+ */
+export function ruleErrors(latex: string, rules: RewriteRule[], at: ExprPath = []): { rule: RewriteRule; error: string }[] {
+  let expr: MathJson;
+  try {
+    expr = parseLatex(latex);
+  } catch {
+    return [];
+  }
+  return rules.flatMap((rule) => {
+    try {
+      probeRule(expr, rule, at);
+      return [];
+    } catch (e) {
+      return [{ rule, error: e instanceof Error ? e.message : String(e) }];
+    }
+  });
+}
+
+/** Rules whose pattern matches `latex` (within `at`) but whose side conditions rule every match out. */
+export function blockedRules(
+  latex: string,
+  rules: RewriteRule[],
+  at: ExprPath = []
+): { rule: RewriteRule; reasons: string[] }[] {
+  let expr: MathJson;
+  try {
+    expr = parseLatex(latex);
+  } catch {
+    return [];
+  }
+  return rules.flatMap((rule) => {
+    try {
+      const { blocked } = probeRule(expr, rule, at);
+      return blocked.length > 0 ? [{ rule, reasons: blocked }] : [];
+    } catch {
+      return [];
+    }
+  });
+}
+
+// Marks replaced subexpressions while sums and products are flattened.
+const CHANGED = "\u0000changed";
+
+/**
+ * Flatten sums inside sums and products inside products, as parsing the
+ * serialized result would, and return where the `changed` subexpressions end
+ * up. A replaced sum spliced into a sum becomes one path per term.
+ */
+function flattenChanged(expr: MathJson, changed: ExprPath[]): { expr: MathJson; changed: ExprPath[] } {
+  const marked = changed.reduce((acc, path) => replaceAt(acc, path, [CHANGED, subexpressionAt(acc, path)!]), expr);
+
+  const flatten = (node: MathJson): MathJson => {
+    if (!Array.isArray(node)) return node;
+    const [head, ...args] = node;
+    const out: MathJson[] = [head];
+    for (const arg of args.map(flatten)) {
+      const isMark = Array.isArray(arg) && arg[0] === CHANGED;
+      const inner = isMark ? (arg as MathJson[])[1] : arg;
+      if ((head === "Add" || head === "Multiply") && Array.isArray(inner) && inner[0] === head) {
+        out.push(...inner.slice(1).map((x) => (isMark ? [CHANGED, x] : x)));
+      } else out.push(arg);
+    }
+    return out;
+  };
+
+  const paths: ExprPath[] = [];
+  const unmark = (node: MathJson, path: ExprPath): MathJson => {
+    if (!Array.isArray(node)) return node;
+    if (node[0] === CHANGED) {
+      paths.push(path);
+      return node[1];
+    }
+    return node.map((x, i) => (i === 0 ? x : unmark(x, [...path, i])));
+  };
+  return { expr: unmark(flatten(marked), []), changed: paths };
+}
+
+/** Apply `rule` to `current`, or only to its subexpression at `at`. */
+export function applyRule(current: DerivationStep, rule: RewriteRule, at?: ExprPath): DerivationStep {
+  const expr = parseLatex(current.latex);
+  const { expr: next, count, changed, justifications, blocked } = rewriteExpression(expr, rule.rewrites, at);
+  if (count === 0) {
+    if (blocked.length > 0) throw new Error(blocked.join(" "));
+    const shapes = rule.rewrites.map((rw) => serializeLatex(rw.match)).join(" or ");
+    throw new Error(`Expected ${at?.length ? "the selection to contain" : "an expression containing"} ${shapes}`);
+  }
+  const flat = flattenChanged(next, changed);
+  const latex = serializeLatex(flat.expr);
+  // Paths refer to the expression as it will be parsed again; if parsing
+  // regroups it in some other way, the highlight is dropped.
+  const stable = JSON.stringify(parseLatex(latex)) === JSON.stringify(flat.expr);
   return {
-    latex: nextLatex,
+    latex,
     ruleId: rule.id,
     ruleName: rule.name,
-    explanation: rule.explanation,
+    explanation: [rule.explanation, ...justifications].join(" "),
+    ...(at?.length ? { at } : {}),
+    ...(stable ? { changed: flat.changed } : {}),
   };
 }
@@ -0,0 +1,30 @@
+import type { MathJson } from "../types";
+
+/**
+ * Shorthands for writing MathJSON patterns in rule packs.
+ * `E(x, cond)` reads closer to the lecture than the nested arrays it builds.
+ */
+
+export const add = (...terms: MathJson[]): MathJson => ["Add", ...terms];
+export const mul = (...factors: MathJson[]): MathJson => ["Multiply", ...factors];
+export const pow = (base: MathJson, exp: MathJson): MathJson => ["Power", base, exp];
+export const eq = (lhs: MathJson, rhs: MathJson): MathJson => ["Equal", lhs, rhs];
+export const sub = (base: MathJson, index: MathJson): MathJson => ["Subscript", base, index];
+export const prime = (x: MathJson): MathJson => ["Prime", x];
+/** `from:to` in a subscript, as in the truncated return `G_{t:T}`. */
+export const range = (from: MathJson, to: MathJson): MathJson => ["Range", from, to];
+export const given = (x: MathJson, cond: MathJson): MathJson => ["Given", x, cond];
+
+/** `\mathbb{E}[x]`, or `\mathbb{E}[x \mid cond]` when a condition is given. */
+export const E = (x: MathJson, cond?: MathJson): MathJson =>
+  cond === undefined ? ["Expectation", x] : ["Expectation", given(x, cond)];
+
+/** `\sum_{index=lower}^{upper} body`; the limits are optional. */
+export const sum = (body: MathJson, index: MathJson, lower?: MathJson, upper?: MathJson): MathJson => {
+  const limits: MathJson[] = ["Tuple", index];
+  if (lower !== undefined) limits.push(lower);
+  if (upper !== undefined) limits.push(upper);
+  return ["Sum", body, limits];
+};
+
+export const INFINITY = "PositiveInfinity";
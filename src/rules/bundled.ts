@@ -0,0 +1,27 @@
+import { registerRulePack } from ".";
+import { formatSchemaErrors, validateRulePack } from "./declarative";
+
+/**
+ * JSON rule packs dropped into ./packs are bundled with the app and offered
+ * next to the built-in packs. Broken files are reported rather than failing
+ * the whole page.
+ */
+
+const files = import.meta.glob<unknown>("./packs/*.json", { eager: true, import: "default" });
+
+/** Problems with bundled pack files, keyed by file name */
+export const bundledPackErrors: Record<string, string> = {};
+
+for (const [path, data] of Object.entries(files)) {
+  const file = path.replace("./packs/", "");
+  const { pack, errors } = validateRulePack(data);
+  if (!pack) {
+    bundledPackErrors[file] = formatSchemaErrors(errors);
+    continue;
+  }
+  try {
+    registerRulePack(pack, { builtIn: true });
+  } catch (e) {
+    bundledPackErrors[file] = e instanceof Error ? e.message : String(e);
+  }
+}
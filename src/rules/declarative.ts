@@ -0,0 +1,343 @@
+import type { DerivationPlan, MathJson, Precondition, RewriteRule, RulePack } from "../types";
+import { applyRule } from "../ruleEngine";
+import { parseLatex } from "../utils/latexParser";
+
+/**
+ * Rule packs written as JSON, so instructors can add rules without editing
+ * TypeScript. Patterns and replacements are LaTeX; the symbols listed in
+ * `wildcards` match any expression (and `sequenceWildcards` the remaining
+ * terms of a sum or factors of a product). Messages refer to a wildcard `X`
+ * as `{X}`. Every rule's examples are replayed when the pack is loaded.
+ *
+ *     {
+ *       "format": "bellman-rule-pack", "version": 1,
+ *       "id": "my-pack", "name": "My pack",
+ *       "rules": [{
+ *         "id": "define-r", "name": "Define expected reward",
+ *         "pattern": "\\mathbb{E}[R_{t+1} \\mid S_t = s]", "replacement": "r(s)",
+ *         "wildcards": ["s"], "explanation": "...",
+ *         "examples": [{ "input": "\\mathbb{E}[R_{t+1} \\mid S_t = x]", "output": "r(x)" }]
+ *       }],
+ *       "derivations": [{ "start": "v(s)", "goal": "...", "suggestedPath": ["define-r"] }]
+ *     }
+ */
+
+export const RULE_PACK_FORMAT = "bellman-rule-pack";
+export const RULE_PACK_FORMAT_VERSION = 1;
+
+export type RuleExample = { input: string; output: string };
+
+export type DeclarativePrecondition = (
+  | { kind: "free-of"; wildcard: string; of: string }
+  | { kind: "one-of"; wildcard: string; values: string[] }
+) & { justification: string; failure: string };
+
+export type DeclarativeRule = {
+  id: string;
+  name: string;
+  /** Any KaTeX, e.g. with \text{...}; it is only displayed, so it is not read with the lecture parser */
+  nameLatex?: string;
+  explanation: string;
+  pattern: string;
+  replacement: string;
+  wildcards?: string[];
+  sequenceWildcards?: string[];
+  /** Only match the whole expression */
+  rootOnly?: boolean;
+  preconditions?: DeclarativePrecondition[];
+  examples?: RuleExample[];
+};
+
+export type DeclarativeDerivation = {
+  start: string;
+  startExplanation?: string;
+  goal: string;
+  suggestedPath?: string[];
+};
+
+export type DeclarativeRulePack = {
+  format: typeof RULE_PACK_FORMAT;
+  version: typeof RULE_PACK_FORMAT_VERSION;
+  id: string;
+  name: string;
+  rules: DeclarativeRule[];
+  derivations: DeclarativeDerivation[];
+};
+
+/** A problem with a rule pack file, located by a path such as `rules[2].pattern`. */
+export type SchemaError = { path: string; message: string };
+
+export type RulePackValidation = { pack: RulePack | null; errors: SchemaError[] };
+
+type Obj = Record<string, unknown>;
+
+const isObject = (x: unknown): x is Obj => typeof x === "object" && x !== null && !Array.isArray(x);
+
+/** Collects errors while reading fields; every read returns a usable fallback. */
+class Reader {
+  errors: SchemaError[] = [];
+
+  error(path: string, message: string) {
+    this.errors.push({ path, message });
+  }
+
+  /** Report keys of `obj` that are not in `allowed`, which are usually typos. */
+  keys(obj: Obj, path: string, allowed: string[]) {
+    for (const key of Object.keys(obj)) {
+      if (!allowed.includes(key)) this.error(path ? `${path}.${key}` : key, `unknown field (expected one of ${allowed.join(", ")})`);
+    }
+  }
+
+  string(obj: Obj, key: string, path: string, optional = false): string | undefined {
+    const value = obj[key];
+    if (value === undefined && optional) return undefined;
+    if (typeof value !== "string" || value.trim() === "") {
+      this.error(`${path}${key}`, value === undefined ? "is required" : "must be a non-empty string");
+      return undefined;
+    }
+    return value;
+  }
+
+  strings(obj: Obj, key: string, path: string): string[] {
+    const value = obj[key];
+    if (value === undefined) return [];
+    if (!Array.isArray(value) || value.some((v) => typeof v !== "string")) {
+      this.error(`${path}${key}`, "must be an array of strings");
+      return [];
+    }
+    return value;
+  }
+
+  array(obj: Obj, key: string, path: string, optional = false): unknown[] {
+    const value = obj[key];
+    if (value === undefined && optional) return [];
+    if (!Array.isArray(value)) {
+      this.error(`${path}${key}`, value === undefined ? "is required" : "must be an array");
+      return [];
+    }
+    return value;
+  }
+
+  latex(text: string | undefined, path: string): MathJson | undefined {
+    if (text === undefined) return undefined;
+    try {
+      return parseLatex(text);
+    } catch (e) {
+      this.error(path, `cannot parse LaTeX: ${e instanceof Error ? e.message : String(e)}`);
+      return undefined;
+    }
+  }
+}
+
+/** Symbols of `expr`, for checking which wildcards a pattern binds. */
+function symbols(expr: MathJson, into = new Set<string>()): Set<string> {
+  if (typeof expr === "string") into.add(expr);
+  else if (Array.isArray(expr)) expr.forEach((e) => symbols(e, into));
+  return into;
+}
+
+/** Rename wildcard symbols to the `_X` / `__X` form the rule engine matches on. */
+function markWildcards(expr: MathJson, names: Map<string, string>): MathJson {
+  if (typeof expr === "string") return names.get(expr) ?? expr;
+  if (Array.isArray(expr)) return expr.map((e) => markWildcards(e, names));
+  return expr;
+}
+
+const markMessage = (message: string, names: Map<string, string>) =>
+  message.replace(/\{(\w+)\}/g, (whole, name: string) => (names.has(name) ? `{${names.get(name)}}` : whole));
+
+function readPrecondition(r: Reader, x: unknown, path: string, names: Map<string, string>): Precondition | undefined {
+  if (!isObject(x)) {
+    r.error(path, "must be an object");
+    return undefined;
+  }
+  const kind = x.kind;
+  r.keys(x, path, ["kind", "wildcard", kind === "one-of" ? "values" : "of", "justification", "failure"]);
+  const wildcard = r.string(x, "wildcard", `${path}.`);
+  const justification = r.string(x, "justification", `${path}.`);
+  const failure = r.string(x, "failure", `${path}.`);
+  if (wildcard !== undefined && !names.has(wildcard)) r.error(`${path}.wildcard`, `"${wildcard}" is not one of the rule's wildcards`);
+  if (wildcard === undefined || justification === undefined || failure === undefined || !names.has(wildcard)) return undefined;
+
+  const common = { wildcard: names.get(wildcard)!, justification: markMessage(justification, names), failure: markMessage(failure, names) };
+  if (kind === "free-of") {
+    const of = r.string(x, "of", `${path}.`);
+    const parsed = of === undefined ? undefined : names.get(of) ?? r.latex(of, `${path}.of`);
+    if (parsed === undefined) return undefined;
+    if (typeof parsed !== "string") {
+      r.error(`${path}.of`, "must be a single symbol or wildcard");
+      return undefined;
+    }
+    return { kind, of: parsed, ...common };
+  }
+  if (kind === "one-of") {
+    const values = r.strings(x, "values", `${path}.`).map((v, i) => r.latex(v, `${path}.values[${i}]`));
+    if (values.some((v) => v === undefined)) return undefined;
+    return { kind, values: values as MathJson[], ...common };
+  }
+  r.error(`${path}.kind`, `must be "free-of" or "one-of"`);
+  return undefined;
+}
+
+function readRule(r: Reader, x: unknown, path: string): RewriteRule | undefined {
+  if (!isObject(x)) {
+    r.error(path, "must be an object");
+    return undefined;
+  }
+  r.keys(x, path, [
+    "id",
+    "name",
+    "nameLatex",
+    "explanation",
+    "pattern",
+    "replacement",
+    "wildcards",
+    "sequenceWildcards",
+    "rootOnly",
+    "preconditions",
+    "examples",
+  ]);
+  const p = `${path}.`;
+  const id = r.string(x, "id", p);
+  const name = r.string(x, "name", p);
+  const nameLatex = r.string(x, "nameLatex", p, true);
+  const explanation = r.string(x, "explanation", p);
+  if (x.rootOnly !== undefined && typeof x.rootOnly !== "boolean") r.error(`${p}rootOnly`, "must be true or false");
+
+  const names = new Map<string, string>();
+  for (const w of r.strings(x, "wildcards", p)) names.set(w, `_${w}`);
+  for (const w of r.strings(x, "sequenceWildcards", p)) {
+    if (names.has(w)) r.error(`${p}sequenceWildcards`, `"${w}" is also listed in wildcards`);
+    names.set(w, `__${w}`);
+  }
+
+  const pattern = r.latex(r.string(x, "pattern", p), `${p}pattern`);
+  const replacement = r.latex(r.string(x, "replacement", p), `${p}replacement`);
+  if (pattern !== undefined) {
+    const bound = symbols(pattern);
+    for (const w of names.keys()) {
+      if (!bound.has(w)) r.error(`${p}pattern`, `the wildcard "${w}" does not occur in the pattern`);
+    }
+  }
+  const preconditions = r
+    .array(x, "preconditions", p, true)
+    .map((pre, i) => readPrecondition(r, pre, `${p}preconditions[${i}]`, names));
+
+  if (!id || !name || !explanation || pattern === undefined || replacement === undefined) return undefined;
+  if (preconditions.some((pre) => pre === undefined)) return undefined;
+
+  const rule: RewriteRule = {
+    id,
+    name,
+    ...(nameLatex ? { nameLatex } : {}),
+    rewrites: [
+      {
+        match: markWildcards(pattern, names),
+        replace: markWildcards(replacement, names),
+        ...(x.rootOnly === true ? { rootOnly: true } : {}),
+        ...(preconditions.length > 0 ? { preconditions: preconditions as Precondition[] } : {}),
+      },
+    ],
+    explanation,
+  };
+
+  r.array(x, "examples", p, true).forEach((ex, i) => checkExample(r, rule, ex, `${p}examples[${i}]`));
+  return rule;
+}
+
+/** Apply the rule to an example input and compare with the expected output. */
+function checkExample(r: Reader, rule: RewriteRule, x: unknown, path: string) {
+  if (!isObject(x)) {
+    r.error(path, "must be an object with input and output");
+    return;
+  }
+  r.keys(x, path, ["input", "output"]);
+  const input = r.string(x, "input", `${path}.`);
+  const output = r.string(x, "output", `${path}.`);
+  const expected = r.latex(output, `${path}.output`);
+  if (input === undefined || r.latex(input, `${path}.input`) === undefined || expected === undefined) return;
+  try {
+    const actual = applyRule({ latex: input }, rule).latex;
+    if (JSON.stringify(parseLatex(actual)) !== JSON.stringify(expected)) {
+      r.error(path, `the rule turns the input into ${actual} instead of ${output}`);
+    }
+  } catch (e) {
+    r.error(path, `the rule does not apply to the input: ${e instanceof Error ? e.message : String(e)}`);
+  }
+}
+
+function readDerivation(r: Reader, x: unknown, path: string, ruleIds: Set<string>): DerivationPlan | undefined {
+  if (!isObject(x)) {
+    r.error(path, "must be an object");
+    return undefined;
+  }
+  r.keys(x, path, ["start", "startExplanation", "goal", "suggestedPath"]);
+  const p = `${path}.`;
+  const start = r.string(x, "start", p);
+  const startExplanation = r.string(x, "startExplanation", p, true);
+  const goal = r.string(x, "goal", p);
+  r.latex(start, `${p}start`);
+  r.latex(goal, `${p}goal`);
+  const suggestedPath = r.strings(x, "suggestedPath", p);
+  suggestedPath.forEach((id, i) => {
+    if (!ruleIds.has(id)) r.error(`${p}suggestedPath[${i}]`, `no rule with id "${id}" in this pack`);
+  });
+  if (start === undefined || goal === undefined) return undefined;
+  return {
+    start: { latex: start, ruleName: "Start", explanation: startExplanation ?? "Start of the derivation." },
+    goal,
+    suggestedPath,
+  };
+}
+
+/** Check a parsed rule pack file and build the rule pack; errors are collected, not thrown. */
+export function validateRulePack(data: unknown): RulePackValidation {
+  const r = new Reader();
+  if (!isObject(data)) {
+    r.error("", "a rule pack must be a JSON object");
+    return { pack: null, errors: r.errors };
+  }
+  r.keys(data, "", ["format", "version", "id", "name", "rules", "derivations"]);
+  if (data.format !== RULE_PACK_FORMAT) r.error("format", `must be "${RULE_PACK_FORMAT}"`);
+  if (data.version !== RULE_PACK_FORMAT_VERSION) r.error("version", `must be ${RULE_PACK_FORMAT_VERSION}`);
+  const id = r.string(data, "id", "");
+  const name = r.string(data, "name", "");
+
+  const rawRules = r.array(data, "rules", "");
+  const rules = rawRules.map((x, i) => readRule(r, x, `rules[${i}]`));
+  // Ids are collected from the raw rules so that one broken rule does not also
+  // break every derivation that mentions it.
+  const ruleIds = new Set<string>();
+  rawRules.forEach((x, i) => {
+    const id = isObject(x) ? x.id : undefined;
+    if (typeof id !== "string") return;
+    if (ruleIds.has(id)) r.error(`rules[${i}].id`, `duplicate rule id "${id}"`);
+    ruleIds.add(id);
+  });
+  if (rawRules.length === 0 && Array.isArray(data.rules)) r.error("rules", "needs at least one rule");
+
+  const derivations = r.array(data, "derivations", "").map((x, i) => readDerivation(r, x, `derivations[${i}]`, ruleIds));
+  if (derivations.length === 0 && Array.isArray(data.derivations)) r.error("derivations", "needs at least one derivation");
+
+  if (r.errors.length > 0 || !id || !name) return { pack: null, errors: r.errors };
+  return {
+    pack: { id, name, rules: rules as RewriteRule[], derivations: derivations as DerivationPlan[] },
+    errors: [],
+  };
+}
+
+export const formatSchemaErrors = (errors: SchemaError[]) =>
+  errors.map((e) => (e.path ? `${e.path}: ${e.message}` : e.message)).join("\n");
+
+/** Parse and validate a rule pack file; throws with every problem found. */
+export function parseRulePack(json: string): RulePack {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch (e) {
+    throw new Error(`Not valid JSON: ${e instanceof Error ? e.message : String(e)}`);
+  }
+  const { pack, errors } = validateRulePack(data);
+  if (!pack) throw new Error(`Invalid rule pack:\n${formatSchemaErrors(errors)}`);
+  return pack;
+}
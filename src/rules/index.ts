@@ -0,0 +1,24 @@
+import type { RulePack } from "../types";
+import { mdpBellmanPack } from "./mdpBellmanRules";
+import { mrpBellmanPack } from "./mrpBellmanRules";
+import { optimalityPack } from "./optimalityRules";
+import { returnPack } from "./returnRules";
+
+/** Rule packs offered in the UI, in lecture order. */
+export const rulePacks: RulePack[] = [mrpBellmanPack, mdpBellmanPack, optimalityPack, returnPack];
+
+/** Ids of the packs that ship with the app, which a loaded pack may not replace. */
+const builtInIds = new Set(rulePacks.map((p) => p.id));
+
+/**
+ * Add a pack loaded at run time (see ./declarative), replacing any loaded pack
+ * with the same id so a corrected file can be loaded again. Packs bundled with
+ * the app are registered as `builtIn`.
+ */
+export function registerRulePack(pack: RulePack, { builtIn = false } = {}): void {
+  if (builtInIds.has(pack.id)) throw new Error(`"${pack.id}" is the id of a built-in rule pack; give the pack another id`);
+  if (builtIn) builtInIds.add(pack.id);
+  const i = rulePacks.findIndex((p) => p.id === pack.id);
+  if (i >= 0) rulePacks[i] = pack;
+  else rulePacks.push(pack);
+}
@@ -0,0 +1,203 @@
+import type { MathJson, RewriteRule, RulePack } from "../types";
+import { add, eq, given, mul, prime, sub, sum } from "./builders";
+
+/**
+ * Bellman expectation equations for an MDP under a fixed policy π.
+ * Expectations carry the policy as a subscript, `\mathbb{E}_\pi[\,\cdot \mid \cdot\,]`,
+ * and conditioning on an action adds `A_t = a` to the condition list.
+ */
+
+const S_t = sub("S", "t");
+const A_t = sub("A", "t");
+const S_next = sub("S", add("t", 1));
+const R_next = sub("R", add("t", 1));
+const G_t = sub("G", "t");
+const G_next = sub("G", add("t", 1));
+
+const v_pi = (s: MathJson): MathJson => ["Apply", sub("v", "pi"), s];
+const q_pi = (s: MathJson, a: MathJson): MathJson => ["Apply", sub("q", "pi"), s, a];
+const policy = (a: MathJson, s: MathJson): MathJson => ["pi", given(a, s)];
+
+/** `\mathbb{E}_\pi[x \mid cond]` */
+const Epi = (x: MathJson, cond: MathJson): MathJson => ["Expectation", given(x, cond), "pi"];
+
+/** The condition `S_t = s, A_t = a`. */
+const stateAction = (s: MathJson, a: MathJson): MathJson => ["Tuple", eq(S_t, s), eq(A_t, a)];
+
+/** `r(s,a) + \gamma \sum_{s'} p(s'\mid s,a) f(s')` */
+const oneStepLookahead = (next: (s: MathJson) => MathJson): MathJson =>
+  add(["r", "_s", "_a"], mul("gamma", sum(mul(["p", given("_n", ["Tuple", "_s", "_a"])], next("_n")), "_n")));
+
+/** `\sum_{a} \pi(a\mid s) q_\pi(s,a)`, written out for the state `s` or `s'`. */
+const marginalizeActions = (s: MathJson, a: MathJson): MathJson => sum(mul(policy(a, s), q_pi(s, a)), a);
+
+const vPiRhs = sum(mul(policy("_a", "_s"), oneStepLookahead(v_pi)), "_a");
+const qPiRhs = oneStepLookahead((n) => sum(mul(policy("_b", n), q_pi(n, "_b")), "_b"));
+
+export const mdpBellmanRules: RewriteRule[] = [
+  {
+    id: "def-value-pi",
+    name: "Definition of state value",
+    nameLatex: "v_\\pi(s)=\\mathbb{E}_\\pi[G_t\\mid S_t=s]",
+    rewrites: [{ match: v_pi("s"), replace: Epi(G_t, eq(S_t, "s")) }],
+    explanation: "The value of s under π is the expected return when starting in s and following π.",
+  },
+  {
+    id: "def-action-value",
+    name: "Definition of action value",
+    nameLatex: "q_\\pi(s,a)=\\mathbb{E}_\\pi[G_t\\mid S_t=s, A_t=a]",
+    rewrites: [{ match: q_pi("s", "a"), replace: Epi(G_t, stateAction("s", "a")) }],
+    explanation: "The action value is the expected return after taking a in s and following π afterwards.",
+  },
+  {
+    id: "condition-on-action",
+    name: "Condition on the action",
+    nameLatex: "\\mathbb{E}_\\pi[X\\mid S_t=s]=\\sum_a\\pi(a\\mid s)\\mathbb{E}_\\pi[X\\mid S_t=s, A_t=a]",
+    rewrites: [
+      {
+        match: Epi("_X", eq(S_t, "_s")),
+        replace: sum(mul(policy("a", "_s"), Epi("_X", stateAction("_s", "a"))), "a"),
+      },
+    ],
+    explanation: "Law of total expectation over A_t, whose distribution given S_t = s is the policy π(·|s).",
+  },
+  {
+    id: "return-recursion",
+    name: "Recursive form of the return",
+    nameLatex: "G_t=R_{t+1}+\\gamma G_{t+1}",
+    rewrites: [{ match: G_t, replace: add(R_next, mul("gamma", G_next)) }],
+    explanation: "The return is the next reward plus the discounted return from the next step.",
+  },
+  {
+    id: "linearity",
+    name: "Linearity of expectation",
+    nameLatex: "\\mathbb{E}_\\pi[X+\\gamma Y\\mid Z]=\\mathbb{E}_\\pi[X\\mid Z]+\\gamma\\mathbb{E}_\\pi[Y\\mid Z]",
+    rewrites: [
+      {
+        match: Epi(add("_X", mul("_c", "__Y")), "_Z"),
+        replace: add(Epi("_X", "_Z"), mul("_c", Epi("__Y", "_Z"))),
+      },
+      {
+        match: Epi(add("_X", "__Y"), "_Z"),
+        replace: add(Epi("_X", "_Z"), Epi("__Y", "_Z")),
+      },
+    ],
+    explanation: "Expectation is linear; split sums and pull out constants.",
+  },
+  {
+    id: "define-r-sa",
+    name: "Define expected reward of an action",
+    nameLatex: "r(s,a)=\\mathbb{E}[R_{t+1}\\mid S_t=s, A_t=a]",
+    rewrites: [{ match: Epi(R_next, stateAction("_s", "_a")), replace: ["r", "_s", "_a"] }],
+    explanation: "Once the action is fixed, the one-step reward no longer depends on π.",
+  },
+  {
+    id: "total-expectation-next-state",
+    name: "Law of total expectation over next state",
+    nameLatex: "\\mathbb{E}_\\pi[G_{t+1}\\mid S_t=s, A_t=a]=\\sum_{s'}p(s'\\mid s,a)\\mathbb{E}_\\pi[G_{t+1}\\mid S_{t+1}=s']",
+    rewrites: [
+      {
+        match: Epi(G_next, stateAction("_s", "_a")),
+        replace: sum(
+          mul(["p", given(prime("_s"), ["Tuple", "_s", "_a"])], Epi(G_next, eq(S_next, prime("_s")))),
+          prime("_s")
+        ),
+      },
+    ],
+    explanation: "Condition on S_{t+1}; by the Markov property the future return depends only on the next state.",
+  },
+  {
+    id: "value-substitution",
+    name: "Substitute value at next state",
+    nameLatex: "\\mathbb{E}_\\pi[G_{t+1}\\mid S_{t+1}=s']=v_\\pi(s')",
+    rewrites: [{ match: Epi(G_next, eq(S_next, "_n")), replace: v_pi("_n") }],
+    explanation: "Recognize the expected return from the next state as v_π(s').",
+  },
+  {
+    id: "action-value-substitution",
+    name: "Recognize the action value",
+    nameLatex: "\\mathbb{E}_\\pi[G_t\\mid S_t=s, A_t=a]=q_\\pi(s,a)",
+    rewrites: [{ match: Epi(G_t, stateAction("_s", "_a")), replace: q_pi("_s", "_a") }],
+    explanation: "The expected return after fixing S_t = s and A_t = a is q_π(s,a) by definition.",
+  },
+  {
+    id: "v-from-q",
+    name: "State value from action values",
+    nameLatex: "v_\\pi(s)=\\sum_a\\pi(a\\mid s)q_\\pi(s,a)",
+    rewrites: [
+      { match: v_pi("s"), replace: marginalizeActions("s", "a") },
+      { match: v_pi(prime("s")), replace: marginalizeActions(prime("s"), prime("a")) },
+    ],
+    explanation: "Averaging the action values over the policy gives the state value.",
+  },
+  {
+    id: "q-from-v",
+    name: "Action value from state values",
+    nameLatex: "q_\\pi(s,a)=r(s,a)+\\gamma\\sum_{s'}p(s'\\mid s,a)v_\\pi(s')",
+    rewrites: [
+      {
+        match: q_pi("_s", "_a"),
+        replace: add(["r", "_s", "_a"], mul("gamma", sum(mul(["p", given(prime("_s"), ["Tuple", "_s", "_a"])], v_pi(prime("_s"))), prime("_s")))),
+      },
+    ],
+    explanation: "One step of lookahead: the expected reward plus the discounted value of the next state.",
+  },
+  {
+    id: "assemble-bellman-v",
+    name: "Assemble Bellman expectation equation for v_π",
+    nameLatex: "v_\\pi(s)=\\sum_a\\pi(a\\mid s)\\left[r(s,a)+\\gamma\\sum_{s'}p(s'\\mid s,a)v_\\pi(s')\\right]",
+    rewrites: [{ match: vPiRhs, replace: eq(v_pi("_s"), vPiRhs), rootOnly: true }],
+    explanation: "This is the Bellman expectation equation for v_π.",
+  },
+  {
+    id: "assemble-bellman-q",
+    name: "Assemble Bellman expectation equation for q_π",
+    nameLatex: "q_\\pi(s,a)=r(s,a)+\\gamma\\sum_{s'}p(s'\\mid s,a)\\sum_{a'}\\pi(a'\\mid s')q_\\pi(s',a')",
+    rewrites: [{ match: qPiRhs, replace: eq(q_pi("_s", "_a"), qPiRhs), rootOnly: true }],
+    explanation: "This is the Bellman expectation equation for q_π.",
+  },
+];
+
+export const mdpBellmanPack: RulePack = {
+  id: "mdp-bellman-expectation",
+  name: "MDP: Bellman expectation (v_π, q_π)",
+  rules: mdpBellmanRules,
+  derivations: [
+    {
+      start: {
+        latex: "v_\\pi(s)",
+        ruleName: "Start",
+        explanation: "Start from the state value of s under the policy π.",
+      },
+      goal: "v_\\pi(s) = \\sum_a \\pi(a\\mid s)\\left[r(s,a) + \\gamma \\sum_{s'} p(s'\\mid s,a) v_\\pi(s')\\right]",
+      suggestedPath: [
+        "def-value-pi",
+        "condition-on-action",
+        "return-recursion",
+        "linearity",
+        "define-r-sa",
+        "total-expectation-next-state",
+        "value-substitution",
+        "assemble-bellman-v",
+      ],
+    },
+    {
+      start: {
+        latex: "q_\\pi(s,a)",
+        ruleName: "Start",
+        explanation: "Start from the value of taking action a in state s and following π afterwards.",
+      },
+      goal: "q_\\pi(s,a) = r(s,a) + \\gamma \\sum_{s'} p(s'\\mid s,a) \\sum_{a'} \\pi(a'\\mid s') q_\\pi(s',a')",
+      suggestedPath: [
+        "def-action-value",
+        "return-recursion",
+        "linearity",
+        "define-r-sa",
+        "total-expectation-next-state",
+        "value-substitution",
+        "v-from-q",
+        "assemble-bellman-q",
+      ],
+    },
+  ],
+};
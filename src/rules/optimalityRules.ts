@@ -0,0 +1,196 @@
+import type { MathJson, RewriteRule, RulePack } from "../types";
+import { add, eq, given, mul, prime, sub, sum } from "./builders";
+import { mdpBellmanRules } from "./mdpBellmanRules";
+
+/**
+ * Bellman optimality equations. `\max_\pi` ranges over policies and
+ * `\max_a` over the actions of a single state; the two behave differently
+ * when moved past a sum over next states, which the preconditions encode.
+ */
+
+const v_pi = (s: MathJson): MathJson => ["Apply", sub("v", "pi"), s];
+const q_pi = (s: MathJson, a: MathJson): MathJson => ["Apply", sub("q", "pi"), s, a];
+const v_star = (s: MathJson): MathJson => ["Apply", sub("v", "star"), s];
+const q_star = (s: MathJson, a: MathJson): MathJson => ["Apply", sub("q", "star"), s, a];
+const policy = (a: MathJson, s: MathJson): MathJson => ["pi", given(a, s)];
+
+/** `\max_{index} body` */
+const max = (body: MathJson, index: MathJson): MathJson => ["Max", body, ["Tuple", index]];
+
+/** `r(s,a) + \gamma \sum_{s'} p(s'\mid s,a) f(s')` */
+const oneStepLookahead = (next: (s: MathJson) => MathJson): MathJson =>
+  add(["r", "_s", "_a"], mul("gamma", sum(mul(["p", given("_n", ["Tuple", "_s", "_a"])], next("_n")), "_n")));
+
+const vStarRhs = max(oneStepLookahead(v_star), "_a");
+const qStarRhs = oneStepLookahead((n) => max(q_star(n, "_b"), "_b"));
+
+const reused = (id: string): RewriteRule => mdpBellmanRules.find((r) => r.id === id)!;
+
+export const optimalityRules: RewriteRule[] = [
+  {
+    id: "def-optimal-value",
+    name: "Optimal value is the max over policies",
+    nameLatex: "v_*(s)=\\max_\\pi v_\\pi(s)",
+    rewrites: [
+      { match: v_star("_s"), replace: max(v_pi("_s"), "pi") },
+      { match: q_star("_s", "_a"), replace: max(q_pi("_s", "_a"), "pi") },
+    ],
+    explanation: "The optimal value function is the largest value any policy achieves.",
+  },
+  {
+    id: "recognize-optimal-value",
+    name: "Recognize the optimal value",
+    nameLatex: "\\max_\\pi v_\\pi(s')=v_*(s')",
+    rewrites: [
+      { match: max(v_pi("_s"), "pi"), replace: v_star("_s") },
+      { match: max(q_pi("_s", "_a"), "pi"), replace: q_star("_s", "_a") },
+    ],
+    explanation: "A maximum of v_π (or q_π) over all policies is v_* (or q_*) by definition.",
+  },
+  reused("v-from-q"),
+  reused("q-from-v"),
+  {
+    id: "greedy-attains-max",
+    name: "A greedy policy attains the max",
+    nameLatex: "\\max_\\pi\\sum_a\\pi(a\\mid s)q_\\pi(s,a)=\\max_a q_*(s,a)",
+    rewrites: [
+      {
+        match: max(sum(mul(policy("_a", "_s"), q_pi("_s", "_a")), "_a"), "pi"),
+        replace: max(q_star("_s", "_a"), "_a"),
+      },
+      { match: v_star("s"), replace: max(q_star("s", "a"), "a") },
+      { match: v_star(prime("s")), replace: max(q_star(prime("s"), prime("a")), prime("a")) },
+    ],
+    explanation:
+      "An average of q-values never exceeds the largest one, and the policy that puts all its weight on argmax_a q_*(s,a) reaches it.",
+  },
+  {
+    id: "max-linearity",
+    name: "Pull constants out of the max",
+    nameLatex: "\\max_x\\left[c+\\gamma f(x)\\right]=c+\\gamma\\max_x f(x)",
+    rewrites: [
+      {
+        match: max(add("_c", mul("gamma", "__X")), "_i"),
+        replace: add("_c", mul("gamma", max("__X", "_i"))),
+        preconditions: [
+          {
+            kind: "free-of",
+            wildcard: "_c",
+            of: "_i",
+            justification: "{_c} does not depend on {_i}.",
+            failure: "Cannot pull {_c} out of the max: it depends on {_i}.",
+          },
+        ],
+      },
+    ],
+    explanation: "Adding a constant or scaling by γ ≥ 0 does not change where the maximum is attained.",
+  },
+  {
+    id: "swap-max-expectation",
+    name: "Swap max and expectation",
+    nameLatex: "\\max_\\pi\\sum_{s'}p(s'\\mid s,a)v_\\pi(s')=\\sum_{s'}p(s'\\mid s,a)\\max_\\pi v_\\pi(s')",
+    rewrites: [
+      {
+        match: max(sum(mul(["p", "_w"], "__X"), "_n"), "_i"),
+        replace: sum(mul(["p", "_w"], max("__X", "_i")), "_n"),
+        preconditions: [
+          {
+            kind: "one-of",
+            wildcard: "_i",
+            values: ["pi"],
+            justification: "A policy may choose differently in every next state, so one policy maximizes every term.",
+            failure:
+              "Cannot move the max over {_i} inside the sum: {_i} is a single choice made before the next state is drawn, and in general the expectation of a max exceeds the max of the expectation.",
+          },
+          {
+            kind: "free-of",
+            wildcard: "_w",
+            of: "_i",
+            justification: "The transition probabilities p({_w}) do not depend on {_i}.",
+            failure: "Cannot move the max inside the sum: the weights p({_w}) depend on {_i}.",
+          },
+        ],
+      },
+      {
+        match: max(["Expectation", given("_X", "_Z")], "_i"),
+        replace: ["Expectation", given(max("_X", "_i"), "_Z")],
+        preconditions: [
+          {
+            kind: "one-of",
+            wildcard: "_i",
+            values: ["pi"],
+            justification: "A policy may choose differently for every outcome, so one policy maximizes every term.",
+            failure:
+              "Cannot pull the max over {_i} through the expectation: {_i} is chosen before the outcome is drawn, and in general the expectation of a max exceeds the max of the expectation.",
+          },
+          {
+            kind: "free-of",
+            wildcard: "_Z",
+            of: "_i",
+            justification: "The conditioning event {_Z} does not depend on {_i}.",
+            failure: "Cannot pull the max through the expectation: the condition {_Z} depends on {_i}.",
+          },
+        ],
+      },
+    ],
+    explanation: "The maximization over policies can be carried out separately for each next state.",
+  },
+  {
+    id: "assemble-optimality-v",
+    name: "Assemble Bellman optimality equation for v_*",
+    nameLatex: "v_*(s)=\\max_a\\left[r(s,a)+\\gamma\\sum_{s'}p(s'\\mid s,a)v_*(s')\\right]",
+    rewrites: [{ match: vStarRhs, replace: eq(v_star("_s"), vStarRhs), rootOnly: true }],
+    explanation: "This is the Bellman optimality equation for v_*.",
+  },
+  {
+    id: "assemble-optimality-q",
+    name: "Assemble Bellman optimality equation for q_*",
+    nameLatex: "q_*(s,a)=r(s,a)+\\gamma\\sum_{s'}p(s'\\mid s,a)\\max_{a'}q_*(s',a')",
+    rewrites: [{ match: qStarRhs, replace: eq(q_star("_s", "_a"), qStarRhs), rootOnly: true }],
+    explanation: "This is the Bellman optimality equation for q_*.",
+  },
+];
+
+export const optimalityPack: RulePack = {
+  id: "bellman-optimality",
+  name: "MDP: Bellman optimality (v_*, q_*)",
+  rules: optimalityRules,
+  derivations: [
+    {
+      start: {
+        latex: "v_*(s)",
+        ruleName: "Start",
+        explanation: "Start from the optimal value of state s.",
+      },
+      goal: "v_*(s) = \\max_a \\left[r(s,a) + \\gamma \\sum_{s'} p(s'\\mid s,a) v_*(s')\\right]",
+      suggestedPath: [
+        "def-optimal-value",
+        "v-from-q",
+        "greedy-attains-max",
+        "def-optimal-value",
+        "q-from-v",
+        "max-linearity",
+        "swap-max-expectation",
+        "recognize-optimal-value",
+        "assemble-optimality-v",
+      ],
+    },
+    {
+      start: {
+        latex: "q_*(s,a)",
+        ruleName: "Start",
+        explanation: "Start from the optimal value of taking action a in state s.",
+      },
+      goal: "q_*(s,a) = r(s,a) + \\gamma \\sum_{s'} p(s'\\mid s,a) \\max_{a'} q_*(s',a')",
+      suggestedPath: [
+        "def-optimal-value",
+        "q-from-v",
+        "max-linearity",
+        "swap-max-expectation",
+        "recognize-optimal-value",
+        "greedy-attains-max",
+        "assemble-optimality-q",
+      ],
+    },
+  ],
+};
@@ -0,0 +1,284 @@
+import type { MathJson, RewriteRule, RulePack } from "../types";
+import { INFINITY, add, eq, mul, pow, range, sub, sum } from "./builders";
+
+/**
+ * Returns other than the infinite discounted sum: the return truncated at a
+ * final time T, the n-step return that bootstraps from v(S_{t+n}), the
+ * λ-return mixing all n-step returns, and the return unrolled k steps at
+ * once. Each derivation ends in a recursion of the same shape as the
+ * Bellman equation: the next reward plus γ times a later return.
+ *
+ * Sums run over `i` (and over `n` in the λ-return), so that `k` and `n` are
+ * free to name step counts.
+ */
+
+const t1 = add("t", 1);
+const R_next = sub("R", t1);
+const G_t = sub("G", "t");
+const G_lambda = (time: MathJson): MathJson => sub(pow("G", "lambda"), time);
+const oneMinusLambda: MathJson = ["Subtract", 1, "lambda"];
+const minus = (a: MathJson, b: MathJson): MathJson => ["Subtract", a, b];
+
+/** `\sum_{i=from}^{to} \gamma^i R_{first+i}`, the rewards from time `first` on. */
+const rewards = (first: MathJson[], to: MathJson, from: MathJson = 0): MathJson =>
+  sum(mul(pow("gamma", "i"), sub("R", add(...first, "i"))), "i", from, to);
+
+/** `\sum_{n=1}^{\infty} (1-\lambda)\lambda^{n-1} body`, the λ-weighted mixture over n. */
+const mixture = (body: MathJson): MathJson =>
+  sum(mul(oneMinusLambda, pow("lambda", minus("n", 1)), body), "n", 1, INFINITY);
+
+const finiteRest = rewards(["t", 2], minus(minus("T", "t"), 2));
+const nStepRest = add(rewards(["t", 2], minus("n", 2)), mul(pow("gamma", minus("n", 1)), ["v", sub("S", add("t", "n"))]));
+
+const finiteRecursion = add(R_next, mul("gamma", sub("G", range(t1, "T"))));
+const nStepRecursion = add(R_next, mul("gamma", sub("G", range(t1, add("t", "n")))));
+const kStepUnroll = add(rewards(["t", 1], minus("k", 1)), mul(pow("gamma", "k"), sub("G", add("t", "k"))));
+const lambdaRecursion = add(
+  R_next,
+  mul("gamma", add(mul(oneMinusLambda, ["v", sub("S", t1)]), mul("lambda", G_lambda(t1))))
+);
+
+export const returnRules: RewriteRule[] = [
+  {
+    id: "def-return",
+    name: "Expand return definition",
+    nameLatex: "G_t=\\sum_{i=0}^{\\infty}\\gamma^i R_{t+1+i}",
+    rewrites: [{ match: G_t, replace: rewards(["t", 1], INFINITY) }],
+    explanation: "Return is the discounted sum of future rewards.",
+  },
+  {
+    id: "def-finite-return",
+    name: "Finite-horizon return",
+    nameLatex: "G_{t:T}=\\sum_{i=0}^{T-t-1}\\gamma^i R_{t+1+i}",
+    rewrites: [{ match: sub("G", range("t", "T")), replace: rewards(["t", 1], minus(minus("T", "t"), 1)) }],
+    explanation: "An episode that ends at time T has rewards R_{t+1} up to R_T left; there is nothing after T to discount.",
+  },
+  {
+    id: "def-n-step-return",
+    name: "n-step return",
+    nameLatex: "G_{t:t+n}=\\sum_{i=0}^{n-1}\\gamma^i R_{t+1+i}+\\gamma^n v(S_{t+n})",
+    rewrites: [
+      {
+        match: sub("G", range("t", add("t", "n"))),
+        replace: add(rewards(["t", 1], minus("n", 1)), mul(pow("gamma", "n"), ["v", sub("S", add("t", "n"))])),
+      },
+    ],
+    explanation: "Take n rewards, then stand in for the rest of the return with the current estimate v(S_{t+n}).",
+  },
+  {
+    id: "def-lambda-return",
+    name: "λ-return",
+    nameLatex: "G^\\lambda_t=\\sum_{n=1}^{\\infty}(1-\\lambda)\\lambda^{n-1}G_{t:t+n}",
+    rewrites: [{ match: G_lambda("t"), replace: mixture(sub("G", range("t", add("t", "n")))) }],
+    explanation: "The λ-return averages all n-step returns with geometric weights (1-λ)λ^{n-1}, which sum to 1.",
+  },
+  {
+    id: "peel-first-reward",
+    name: "Split off the first reward",
+    nameLatex: "\\sum_{i=0}^{m}\\gamma^i R_{t+1+i}=R_{t+1}+\\gamma\\sum_{i=0}^{m-1}\\gamma^i R_{t+2+i}",
+    rewrites: [
+      {
+        match: rewards(["t", 1], minus(minus("T", "t"), 1)),
+        replace: add(R_next, mul("gamma", finiteRest)),
+      },
+      {
+        match: rewards(["t", 1], minus("n", 1)),
+        replace: add(R_next, mul("gamma", rewards(["t", 2], minus("n", 2)))),
+      },
+    ],
+    explanation: "Take the i = 0 term out of the sum and shift the index of the rest by one, which leaves one factor γ outside.",
+  },
+  {
+    id: "factor-discount",
+    name: "Factor out one discount",
+    nameLatex: "\\gamma X+\\gamma^n Y=\\gamma\\left[X+\\gamma^{n-1}Y\\right]",
+    rewrites: [
+      {
+        match: add("_R", mul("gamma", "_X"), mul(pow("gamma", "n"), "_Y")),
+        replace: add("_R", mul("gamma", add("_X", mul(pow("gamma", minus("n", 1)), "_Y")))),
+      },
+    ],
+    explanation: "Both later terms are discounted at least once, so γ comes out of them together.",
+  },
+  {
+    id: "recognize-finite-return",
+    name: "Recognize the return from t+1",
+    nameLatex: "\\sum_{i=0}^{T-t-2}\\gamma^i R_{t+2+i}=G_{t+1:T}",
+    rewrites: [
+      { match: finiteRest, replace: sub("G", range(t1, "T")) },
+      { match: nStepRest, replace: sub("G", range(t1, add("t", "n"))) },
+    ],
+    explanation:
+      "Starting one step later, T-(t+1)-1 = T-t-2, so these are the rewards of G_{t+1:T}; with the bootstrap term, n-1 rewards and γ^{n-1} v(S_{t+n}) make the return G_{t+1:t+n}.",
+  },
+  {
+    id: "split-after-k",
+    name: "Split the sum after k rewards",
+    nameLatex: "\\sum_{i=0}^{\\infty}a_i=\\sum_{i=0}^{k-1}a_i+\\sum_{i=k}^{\\infty}a_i",
+    rewrites: [
+      {
+        match: rewards(["t", 1], INFINITY),
+        replace: add(rewards(["t", 1], minus("k", 1)), rewards(["t", 1], INFINITY, "k")),
+      },
+    ],
+    explanation: "The first k rewards and everything after them.",
+  },
+  {
+    id: "shift-index",
+    name: "Shift the index by k",
+    nameLatex: "\\sum_{i=k}^{\\infty}\\gamma^i R_{t+1+i}=\\gamma^k\\sum_{i=0}^{\\infty}\\gamma^i R_{t+k+1+i}",
+    rewrites: [
+      { match: rewards(["t", 1], INFINITY, "k"), replace: mul(pow("gamma", "k"), rewards(["t", "k", 1], INFINITY)) },
+    ],
+    explanation: "Substitute i → i + k; every term keeps a common factor γ^k.",
+  },
+  {
+    id: "recognize-return",
+    name: "Recognize the return from t+k",
+    nameLatex: "\\sum_{i=0}^{\\infty}\\gamma^i R_{t+k+1+i}=G_{t+k}",
+    rewrites: [{ match: rewards(["t", "k", 1], INFINITY), replace: sub("G", add("t", "k")) }],
+    explanation: "The same definition of the return, read from time t+k.",
+  },
+  {
+    id: "split-first-n-step",
+    name: "Split off the one-step return",
+    nameLatex:
+      "\\sum_{n=1}^{\\infty}w_n G_{t:t+n}=(1-\\lambda)G_{t:t+1}+\\lambda\\sum_{n=1}^{\\infty}w_n G_{t:t+1+n}",
+    rewrites: [
+      {
+        match: mixture(sub("G", range("t", add("t", "n")))),
+        replace: add(
+          mul(oneMinusLambda, sub("G", range("t", t1))),
+          mul("lambda", mixture(sub("G", range("t", add("t", 1, "n")))))
+        ),
+      },
+    ],
+    explanation:
+      "The n = 1 term has weight 1-λ; shifting n by one in the rest multiplies every weight w_n = (1-λ)λ^{n-1} by λ.",
+  },
+  {
+    id: "n-step-recursion",
+    name: "Recurse on the n-step returns",
+    nameLatex: "G_{t:t+n}=R_{t+1}+\\gamma G_{t+1:t+n}",
+    rewrites: [
+      { match: sub("G", range("t", t1)), replace: add(R_next, mul("gamma", ["v", sub("S", t1)])) },
+      {
+        match: sub("G", range("t", add("t", 1, "n"))),
+        replace: add(R_next, mul("gamma", sub("G", range(t1, add("t", 1, "n"))))),
+      },
+    ],
+    explanation:
+      "The recursion of the n-step return, bottoming out in the one-step return R_{t+1} + γ v(S_{t+1}) since G_{t+1:t+1} = v(S_{t+1}).",
+  },
+  {
+    id: "weights-sum-to-one",
+    name: "The weights sum to one",
+    nameLatex: "\\sum_{n=1}^{\\infty}(1-\\lambda)\\lambda^{n-1}\\left[X+\\gamma Y_n\\right]=X+\\gamma\\sum_{n=1}^{\\infty}(1-\\lambda)\\lambda^{n-1}Y_n",
+    rewrites: [
+      {
+        match: mixture(add("_X", mul("gamma", "_Y"))),
+        replace: add("_X", mul("gamma", mixture("_Y"))),
+        preconditions: [
+          {
+            kind: "free-of",
+            wildcard: "_X",
+            of: "n",
+            justification: "{_X} does not depend on n, and the weights (1-λ)λ^{n-1} sum to 1.",
+            failure: "{_X} depends on n, so it cannot be taken out of the mixture.",
+          },
+        ],
+      },
+    ],
+    explanation: "A term common to every n-step return comes out of the average unchanged.",
+  },
+  {
+    id: "recognize-lambda-return",
+    name: "Recognize the λ-return from t+1",
+    nameLatex: "\\sum_{n=1}^{\\infty}(1-\\lambda)\\lambda^{n-1}G_{t+1:t+1+n}=G^\\lambda_{t+1}",
+    rewrites: [{ match: mixture(sub("G", range(t1, add("t", 1, "n")))), replace: G_lambda(t1) }],
+    explanation: "The same mixture of n-step returns, read from time t+1.",
+  },
+  {
+    id: "collect-reward",
+    name: "Collect the reward",
+    nameLatex:
+      "(1-\\lambda)\\left[X+\\gamma Y\\right]+\\lambda\\left[X+\\gamma Z\\right]=X+\\gamma\\left[(1-\\lambda)Y+\\lambda Z\\right]",
+    rewrites: [
+      {
+        match: add(mul(oneMinusLambda, add("_X", mul("gamma", "_Y"))), mul("lambda", add("_X", mul("gamma", "_Z")))),
+        replace: add("_X", mul("gamma", add(mul(oneMinusLambda, "_Y"), mul("lambda", "_Z")))),
+      },
+    ],
+    explanation: "The weights 1-λ and λ add up to 1, so the reward appears once and γ comes out of both bracketed terms.",
+  },
+  {
+    id: "assemble-recursion",
+    name: "State the recursion",
+    nameLatex: "G=R_{t+1}+\\gamma G'",
+    rewrites: [
+      { match: finiteRecursion, replace: eq(sub("G", range("t", "T")), finiteRecursion), rootOnly: true },
+      { match: nStepRecursion, replace: eq(sub("G", range("t", add("t", "n"))), nStepRecursion), rootOnly: true },
+      { match: kStepUnroll, replace: eq(G_t, kStepUnroll), rootOnly: true },
+      { match: lambdaRecursion, replace: eq(G_lambda("t"), lambdaRecursion), rootOnly: true },
+    ],
+    explanation: "Everything we rewrote was the return we started from, so it equals the expression reached.",
+  },
+];
+
+export const returnPack: RulePack = {
+  id: "multi-step-returns",
+  name: "Returns: finite-horizon, n-step and λ",
+  rules: returnRules,
+  derivations: [
+    {
+      start: {
+        latex: "G_{t:T}",
+        ruleName: "Start",
+        explanation: "Start from the return of an episode that ends at time T.",
+      },
+      goal: "G_{t:T} = R_{t+1} + \\gamma G_{t+1:T}",
+      suggestedPath: ["def-finite-return", "peel-first-reward", "recognize-finite-return", "assemble-recursion"],
+    },
+    {
+      start: {
+        latex: "G_t",
+        ruleName: "Start",
+        explanation: "Start from the return at time t, to unroll it k steps at once.",
+      },
+      goal: "G_t = \\sum_{i=0}^{k-1} \\gamma^i R_{t+1+i} + \\gamma^k G_{t+k}",
+      suggestedPath: ["def-return", "split-after-k", "shift-index", "recognize-return", "assemble-recursion"],
+    },
+    {
+      start: {
+        latex: "G_{t:t+n}",
+        ruleName: "Start",
+        explanation: "Start from the n-step return, which bootstraps from v after n rewards.",
+      },
+      goal: "G_{t:t+n} = R_{t+1} + \\gamma G_{t+1:t+n}",
+      suggestedPath: [
+        "def-n-step-return",
+        "peel-first-reward",
+        "factor-discount",
+        "recognize-finite-return",
+        "assemble-recursion",
+      ],
+    },
+    {
+      start: {
+        latex: "G^\\lambda_t",
+        ruleName: "Start",
+        explanation: "Start from the λ-return, a geometric mixture of all n-step returns.",
+      },
+      goal: "G^\\lambda_t = R_{t+1} + \\gamma \\left[(1 - \\lambda) v(S_{t+1}) + \\lambda G^\\lambda_{t+1}\\right]",
+      suggestedPath: [
+        "def-lambda-return",
+        "split-first-n-step",
+        "n-step-recursion",
+        "weights-sum-to-one",
+        "recognize-lambda-return",
+        "collect-reward",
+        "assemble-recursion",
+      ],
+    },
+  ],
+};
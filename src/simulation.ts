@@ -0,0 +1,178 @@
+import type { MrpModel } from "./mrp";
+import { terminalStates } from "./mrp";
+import { supNormDistance, type Vec } from "./utils/matrix";
+import { createRng, sampleIndex } from "./utils/random";
+
+/**
+ * Sampling-based estimates of V for an MRP, to compare the definition
+ * v(s) = E[G_t | S_t = s] with the closed form. Leaving state s yields the
+ * reward R(s); episodes end in a terminal state or are cut off once further
+ * rewards are discounted below `CUTOFF`.
+ */
+
+export type Episode = {
+  /** S_0, S_1, ..., S_T: one more than `rewards` */
+  states: number[];
+  /** R_1, R_2, ... */
+  rewards: number[];
+  terminated: boolean;
+};
+
+export type Estimator = "mc-first-visit" | "mc-every-visit" | "td0";
+
+export type EstimationOptions = {
+  estimator: Estimator;
+  episodes: number;
+  /**
+   * Constant step size α. When omitted, Monte Carlo takes sample averages
+   * (α = 1/n per state) and TD(0) uses `TD_STEP_SIZE`.
+   */
+  stepSize?: number;
+  /** Independent runs, used for the confidence intervals */
+  runs?: number;
+  seed?: number;
+};
+
+export type EstimationResult = {
+  /** Mean of the runs' final estimates */
+  estimate: Vec;
+  /** 95% confidence interval across runs */
+  lower: Vec;
+  upper: Vec;
+  /** Sup-norm error of the mean estimate after each checkpoint, if `exact` was given */
+  curve: { episodes: number; error: number }[];
+  /** Transitions sampled over all runs */
+  steps: number;
+};
+
+/** Discount below which the rest of a return is ignored. */
+const CUTOFF = 1e-6;
+/** Cap on episode length, also for γ = 1 chains that should terminate. */
+const MAX_STEPS = 10000;
+const CHECKPOINTS = 50;
+
+/**
+ * Default α for TD(0). With α = 1/n the early targets, bootstrapped from
+ * estimates near 0, keep their full weight in the average, so the estimates
+ * stay biased towards 0 long after Monte Carlo has converged.
+ */
+export const TD_STEP_SIZE = 0.1;
+
+/** Two-sided 95% Student t quantiles for 1..10 degrees of freedom; 1.96 beyond. */
+const T95 = [12.706, 4.303, 3.182, 2.776, 2.571, 2.447, 2.365, 2.306, 2.262, 2.228];
+
+/** Steps after which γ^steps falls below the cutoff. */
+function tailLength(gamma: number): number {
+  if (gamma >= 1) return MAX_STEPS;
+  if (gamma <= 0) return 0;
+  return Math.min(MAX_STEPS, Math.ceil(Math.log(CUTOFF) / Math.log(gamma)));
+}
+
+export function sampleEpisode(model: MrpModel, rand: () => number, start: number, maxSteps: number): Episode {
+  const terminal = new Set(terminalStates(model));
+  const states = [start];
+  const rewards: number[] = [];
+  let s = start;
+  while (rewards.length < maxSteps) {
+    rewards.push(model.R[s]);
+    s = sampleIndex(rand, model.P[s]);
+    states.push(s);
+    if (terminal.has(s)) return { states, rewards, terminated: true };
+  }
+  return { states, rewards, terminated: false };
+}
+
+/** Per-state estimate updated with step size α, or as a sample average. */
+function update(V: Vec, counts: number[], s: number, target: number, stepSize?: number) {
+  counts[s]++;
+  V[s] += (stepSize ?? 1 / counts[s]) * (target - V[s]);
+}
+
+/** Returns G_t for every t with enough of the episode left to approximate it. */
+function returns(episode: Episode, gamma: number, tail: number): number[] {
+  const G: number[] = [];
+  let g = 0;
+  for (let t = episode.rewards.length - 1; t >= 0; t--) {
+    g = episode.rewards[t] + gamma * g;
+    G[t] = g;
+  }
+  return episode.terminated ? G : G.slice(0, Math.max(0, G.length - tail));
+}
+
+function learn(model: MrpModel, episode: Episode, V: Vec, counts: number[], options: EstimationOptions, tail: number) {
+  const { gamma } = model;
+  if (options.estimator === "td0") {
+    // Terminal states are never updated, so bootstrapping from them uses V = 0.
+    episode.rewards.forEach((r, t) => {
+      update(V, counts, episode.states[t], r + gamma * V[episode.states[t + 1]], options.stepSize ?? TD_STEP_SIZE);
+    });
+    return;
+  }
+  const G = returns(episode, gamma, tail);
+  const seen = new Set<number>();
+  G.forEach((g, t) => {
+    const s = episode.states[t];
+    if (options.estimator === "mc-first-visit" && seen.has(s)) return;
+    seen.add(s);
+    update(V, counts, s, g, options.stepSize);
+  });
+}
+
+/**
+ * Estimate V from sampled episodes. Episodes start in each non-terminal state
+ * in turn so that every state is visited; runs use seeds `seed`, `seed + 1`, ...
+ */
+export function estimateValues(model: MrpModel, options: EstimationOptions, exact?: Vec): EstimationResult {
+  const { episodes, runs = 10, seed = 1 } = options;
+  const n = model.states.length;
+  const terminal = new Set(terminalStates(model));
+  const starts = model.states.map((_, i) => i).filter((i) => !terminal.has(i));
+  if (starts.length === 0) throw new Error("Every state is terminal; there is nothing to estimate");
+
+  const tail = tailLength(model.gamma);
+  // Continuing chains run for twice the tail so that early visits see a full return.
+  const maxSteps = Math.min(MAX_STEPS, 2 * tail + 1);
+  const every = Math.max(1, Math.ceil(episodes / CHECKPOINTS));
+
+  const finals: Vec[] = [];
+  const sums: Vec[] = [];
+  let steps = 0;
+  for (let run = 0; run < runs; run++) {
+    const rand = createRng(seed + run);
+    const V: Vec = Array(n).fill(0);
+    const counts: number[] = Array(n).fill(0);
+    for (let e = 0; e < episodes; e++) {
+      const episode = sampleEpisode(model, rand, starts[e % starts.length], maxSteps);
+      steps += episode.rewards.length;
+      learn(model, episode, V, counts, options, tail);
+      if ((e + 1) % every === 0 || e + 1 === episodes) {
+        const k = Math.ceil((e + 1) / every) - 1;
+        sums[k] = (sums[k] ?? Array(n).fill(0)).map((x, i) => x + V[i]);
+      }
+    }
+    finals.push(V);
+  }
+
+  const estimate = model.states.map((_, i) => finals.reduce((acc, V) => acc + V[i], 0) / runs);
+  const t = runs > 1 ? (T95[runs - 2] ?? 1.96) : 0;
+  const halfWidth = estimate.map((mean, i) => {
+    if (runs < 2) return Infinity;
+    const variance = finals.reduce((acc, V) => acc + (V[i] - mean) ** 2, 0) / (runs - 1);
+    return (t * Math.sqrt(variance)) / Math.sqrt(runs);
+  });
+
+  const curve = exact
+    ? sums.map((sum, k) => ({
+        episodes: Math.min(episodes, (k + 1) * every),
+        error: supNormDistance(sum.map((x) => x / runs), exact),
+      }))
+    : [];
+
+  return {
+    estimate,
+    lower: estimate.map((m, i) => m - halfWidth[i]),
+    upper: estimate.map((m, i) => m + halfWidth[i]),
+    curve,
+    steps,
+  };
+}
@@ -1,8 +1,89 @@
+/**
+ * Position of a subexpression: indices into the nested MathJSON arrays from
+ * the outside in, so `[2, 1]` is the first operand of the second operand.
+ * The empty path is the whole expression.
+ */
+export type ExprPath = number[];
+
 export type DerivationStep = {
   latex: string;
   ruleId?: string;
   ruleName?: string;
   explanation?: string;
+  /** Subexpression of the previous step the rule was applied to; the whole expression when absent */
+  at?: ExprPath;
+  /** Subexpressions of `latex` that the rule replaced, for highlighting */
+  changed?: ExprPath[];
+  /** Result of checking a manual edit against the step it was made from */
+  check?: StepCheck;
+};
+
+/** An MRP on which two expressions evaluate differently. */
+export type Counterexample = {
+  P: number[][];
+  R: number[];
+  gamma: number;
+  /** Index of the state substituted for s */
+  state: number;
+  previous: number;
+  edited: number;
+};
+
+export type StepCheck =
+  | { status: "verified"; method: "symbolic" | "numeric"; detail: string }
+  | { status: "unverified"; detail: string }
+  | { status: "refuted"; detail: string; counterexample: Counterexample };
+
+/** A step stored in a derivation tree; the start step has no parent. */
+export type DerivationNode = DerivationStep & {
+  id: string;
+  parentId: string | null;
+};
+
+export type DerivationTree = {
+  /** Every step ever derived, in creation order; `nodes[0]` is the start */
+  nodes: DerivationNode[];
+  /** Leaf of the branch marked as the main proof */
+  mainLeafId?: string;
+};
+
+/**
+ * A MathJSON expression: a number, a symbol, or `[operator, ...operands]`.
+ * Symbols starting with `_` are wildcards when they appear in a pattern
+ * (`_X` matches one expression, `__X` a sequence of operands).
+ */
+export type MathJson = number | string | MathJson[];
+
+/**
+ * A side condition on the wildcards bound by a match. Messages may mention a
+ * binding as `{_X}`; it is replaced by the bound expression's LaTeX.
+ */
+export type Precondition = (
+  | {
+      /** The binding of `wildcard` must not mention `of` (a symbol or another wildcard) */
+      kind: "free-of";
+      wildcard: string;
+      of: string;
+    }
+  | {
+      /** The binding of `wildcard` must be one of `values` */
+      kind: "one-of";
+      wildcard: string;
+      values: MathJson[];
+    }
+) & {
+  /** Why the rewrite is valid when the condition holds */
+  justification: string;
+  /** Why the rewrite is not allowed when it fails */
+  failure: string;
+};
+
+export type Rewrite = {
+  match: MathJson;
+  replace: MathJson;
+  /** Only try this rewrite against the whole expression, not its subexpressions */
+  rootOnly?: boolean;
+  preconditions?: Precondition[];
 };
 
 export type RewriteRule = {
@@ -11,8 +92,80 @@ export type RewriteRule = {
   /** Optional LaTeX to display for the title */
   nameLatex?: string;
 
-  appliesTo: (latex: string) => boolean;
-  transform: (latex: string) => string;
+  /**
+   * Structural pattern → replacement rewrites on the parsed expression.
+   * Every outermost subexpression matching one of them is replaced; when
+   * several match the same subexpression, the first one listed wins.
+   */
+  rewrites: Rewrite[];
   explanation: string;
 };
 
+export type DerivationPlan = {
+  start: DerivationStep;
+  /** LaTeX of the equation the derivation should arrive at */
+  goal: string;
+  /** Rule ids of the lecture derivation from `start`, shown as a hint */
+  suggestedPath: string[];
+};
+
+export type RulePack = {
+  id: string;
+  name: string;
+  rules: RewriteRule[];
+  /** Derivations this pack supports; the first one is the default */
+  derivations: DerivationPlan[];
+};
+
+/** Feedback for a rule tried too early, written by the lesson author. */
+export type Misconception = {
+  /** Rule the student tried */
+  ruleId: string;
+  /** Only shown when this rule is the next step towards the target; on any failure of `ruleId` when absent */
+  insteadOf?: string;
+  message: string;
+};
+
+export type Exercise = {
+  id: string;
+  title: string;
+  /** What to do, in a sentence or two */
+  prompt: string;
+  packId: string;
+  start: DerivationStep;
+  /** LaTeX the student should arrive at */
+  target: string;
+  /** Rule ids offered in this exercise; all rules of the pack when absent */
+  allowedRules?: string[];
+  /** Most steps allowed on the branch from start to target */
+  maxSteps?: number;
+  /** Most hints allowed */
+  maxHints?: number;
+  misconceptions?: Misconception[];
+};
+
+export type Lesson = {
+  id: string;
+  title: string;
+  exercises: Exercise[];
+};
+
+/** The MRP entered in the linear algebra panel, kept as typed (γ and CSV text). */
+export type MrpParams = {
+  gamma: string;
+  P: string;
+  R: string;
+  /** Comma-separated state names; s1, s2, ... when absent */
+  states?: string;
+};
+
+/** A saved derivation; `version` changes whenever the format does. */
+export type DerivationFile = {
+  version: 1;
+  packId: string;
+  planIndex: number;
+  tree: DerivationTree;
+  /** Step that was selected when the derivation was saved */
+  activeId: string;
+  mrp: MrpParams;
+};
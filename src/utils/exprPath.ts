@@ -0,0 +1,56 @@
+import type { ExprPath, MathJson } from "../types";
+import { parseLatex } from "./latexParser";
+
+/** Paths as strings, e.g. for `data-` attributes and React keys; the whole expression is "". */
+export const pathKey = (path: ExprPath) => path.join(".");
+
+export const parsePathKey = (key: string): ExprPath => (key === "" ? [] : key.split(".").map(Number));
+
+export const samePath = (a: ExprPath, b: ExprPath) => a.length === b.length && a.every((x, i) => x === b[i]);
+
+/** Whether `path` is `prefix` or lies inside it. */
+export const isWithin = (path: ExprPath, prefix: ExprPath) => prefix.every((x, i) => path[i] === x);
+
+export function subexpressionAt(expr: MathJson, path: ExprPath): MathJson | undefined {
+  let node: MathJson | undefined = expr;
+  for (const i of path) {
+    if (!Array.isArray(node) || i < 1 || i >= node.length) return undefined;
+    node = node[i];
+  }
+  return node;
+}
+
+export function replaceAt(expr: MathJson, path: ExprPath, value: MathJson): MathJson {
+  if (path.length === 0) return value;
+  if (!Array.isArray(expr)) throw new Error("No subexpression at that position");
+  const [i, ...rest] = path;
+  return expr.map((x, j) => (j === i ? replaceAt(x, rest, value) : x));
+}
+
+/** Every path in `expr` whose subexpression is `target`, outermost and leftmost first. */
+function occurrences(expr: MathJson, target: string, path: ExprPath = [], into: ExprPath[] = []): ExprPath[] {
+  if (JSON.stringify(expr) === target) into.push(path);
+  if (Array.isArray(expr)) expr.forEach((x, i) => i > 0 && occurrences(x, target, [...path, i], into));
+  return into;
+}
+
+/**
+ * The subexpression selected by the characters `start` to `end` of `latex`,
+ * or null if the selection is not a whole subexpression. When the same text
+ * occurs several times, the count of earlier occurrences decides which one.
+ */
+export function locateSelection(latex: string, start: number, end: number): ExprPath | null {
+  const text = latex.slice(start, end).trim();
+  if (text === "") return null;
+  let candidates: ExprPath[];
+  try {
+    candidates = occurrences(parseLatex(latex), JSON.stringify(parseLatex(text)));
+  } catch {
+    return null;
+  }
+  if (candidates.length === 0) return null;
+
+  let earlier = 0;
+  for (let i = latex.indexOf(text); i !== -1 && i < start; i = latex.indexOf(text, i + text.length)) earlier++;
+  return candidates[Math.min(earlier, candidates.length - 1)];
+}
@@ -3,3 +3,28 @@ export function canonicalizeLatex(s: string) {
   return s.replace(/\\\\/g, "\\");
 }
 
+/** Characters TeX treats specially, as they are written inside `\text{}`; `^` and `~` alone would be accents. */
+const TEXT_ESCAPES: Record<string, string> = { "\\": "\\textbackslash{}", "^": "\\textasciicircum{}", "~": "\\textasciitilde{}" };
+
+/** A name such as a state's inside `\text{}`, with the characters TeX treats specially escaped. */
+export const textLatex = (s: string) => `\\text{${s.replace(/[\\{}_^&#%$~]/g, (c) => TEXT_ESCAPES[c] ?? `\\${c}`)}}`;
+
+const GREEK_TEXT: Record<string, string> = {
+  alpha: "α", beta: "β", gamma: "γ", delta: "δ", epsilon: "ϵ", varepsilon: "ε", zeta: "ζ", eta: "η",
+  theta: "θ", kappa: "κ", lambda: "λ", mu: "μ", nu: "ν", xi: "ξ", pi: "π", rho: "ρ", sigma: "σ",
+  tau: "τ", phi: "ϕ", varphi: "φ", chi: "χ", psi: "ψ", omega: "ω",
+  Gamma: "Γ", Delta: "Δ", Theta: "Θ", Lambda: "Λ", Pi: "Π", Sigma: "Σ", Phi: "Φ", Psi: "Ψ", Omega: "Ω",
+};
+
+/** Greek letter commands that parse to (and serialize from) a symbol of the same name. */
+export const GREEK_LETTERS = new Set(Object.keys(GREEK_TEXT));
+
+/** Render simple LaTeX as plain text for explanations, e.g. `p(s' \mid s)` → `p(s'|s)`. */
+export function latexToText(s: string) {
+  return canonicalizeLatex(s)
+    .replace(/\\mid\b\s*/g, "|")
+    .replace(/\s*\|/g, "|")
+    .replace(/\\([a-zA-Z]+)/g, (whole, name: string) => GREEK_TEXT[name] ?? (name === "infty" ? "∞" : name))
+    .replace(/[{}]/g, "")
+    .replace(/\\,/g, " ");
+}
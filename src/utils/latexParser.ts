@@ -0,0 +1,350 @@
+import type { MathJson } from "../types";
+import { canonicalizeLatex, GREEK_LETTERS } from "./latex";
+
+/**
+ * A small recursive-descent parser for the LaTeX used in the lecture notes.
+ *
+ * Compute Engine's own LaTeX parser reads `G_t` as Catalan's constant and
+ * rejects `\mid`, so we parse the course notation ourselves into MathJSON and
+ * hand the result to Compute Engine for pattern matching.
+ *
+ * Spacing commands (`\,`, `\;`, `\left`, `\right`, ...) and the number of
+ * backslashes do not change the result.
+ */
+
+type Token =
+  | { kind: "number"; value: number; pos: number }
+  | { kind: "letter"; value: string; pos: number }
+  | { kind: "command"; value: string; pos: number }
+  | { kind: "punct"; value: string; pos: number }
+  | { kind: "eof"; pos: number };
+
+const IGNORED_COMMANDS = new Set([",", ";", ":", "!", " ", "quad", "qquad", "left", "right", "big", "Big", "bigl", "bigr", "Bigl", "Bigr", "displaystyle"]);
+
+/** Symbols that read as function application when followed by `(`. */
+const FUNCTION_SYMBOLS = new Set(["v", "q", "r", "p", "f", "g", "pi", "mu"]);
+
+const BIG_OPERATORS: Record<string, string> = { sum: "Sum", prod: "Product", max: "Max", min: "Min" };
+
+const CLOSING: Record<string, string> = { "(": ")", "[": "]", "{": "}" };
+
+function tokenize(src: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < src.length) {
+    const ch = src[i];
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+    if (ch === "\\") {
+      const m = /^\\([a-zA-Z]+|.)/.exec(src.slice(i));
+      if (!m) throw new Error(`Dangling backslash at position ${i}`);
+      const name = m[1];
+      const pos = i;
+      i += m[0].length;
+      if (IGNORED_COMMANDS.has(name)) continue;
+      if (name === "{" || name === "}") {
+        tokens.push({ kind: "punct", value: name === "{" ? "(" : ")", pos });
+      } else if (name === "vert") {
+        tokens.push({ kind: "command", value: "mid", pos });
+      } else {
+        tokens.push({ kind: "command", value: name, pos });
+      }
+      continue;
+    }
+    if (/[0-9]/.test(ch)) {
+      const m = /^[0-9]+(\.[0-9]+)?/.exec(src.slice(i))!;
+      tokens.push({ kind: "number", value: Number(m[0]), pos: i });
+      i += m[0].length;
+      continue;
+    }
+    if (/[a-zA-Z]/.test(ch)) {
+      tokens.push({ kind: "letter", value: ch, pos: i });
+      i++;
+      continue;
+    }
+    if (ch === "|") {
+      tokens.push({ kind: "command", value: "mid", pos: i });
+      i++;
+      continue;
+    }
+    if ("+-=()[]{}_^',*/:".includes(ch)) {
+      tokens.push({ kind: "punct", value: ch, pos: i });
+      i++;
+      continue;
+    }
+    throw new Error(`Unexpected character '${ch}' at position ${i}`);
+  }
+  tokens.push({ kind: "eof", pos: src.length });
+  return tokens;
+}
+
+class Parser {
+  private i = 0;
+
+  constructor(private readonly tokens: Token[]) {}
+
+  private peek(): Token {
+    return this.tokens[this.i];
+  }
+
+  private next(): Token {
+    return this.tokens[this.i++];
+  }
+
+  private isPunct(value: string): boolean {
+    const t = this.peek();
+    return t.kind === "punct" && t.value === value;
+  }
+
+  private isCommand(value: string): boolean {
+    const t = this.peek();
+    return t.kind === "command" && t.value === value;
+  }
+
+  private expectPunct(value: string) {
+    const t = this.next();
+    if (t.kind !== "punct" || t.value !== value) {
+      throw new Error(`Expected '${value}' at position ${t.pos}`);
+    }
+  }
+
+  parseDocument(): MathJson {
+    const items = this.parseList();
+    if (items.length !== 1) throw new Error("Expected a single expression, not a comma-separated list");
+    const t = this.peek();
+    if (t.kind !== "eof") throw new Error(`Unexpected '${describe(t)}' at position ${t.pos}`);
+    return items[0];
+  }
+
+  /**
+   * A comma-separated list, optionally split by `\mid`:
+   * `s, a` → two items, `X \mid S_t=s, A_t=a` → one `Given`.
+   */
+  private parseList(): MathJson[] {
+    const items = [this.parseRelation()];
+    if (this.isCommand("mid")) {
+      this.next();
+      const conds = [this.parseRelation()];
+      while (this.isPunct(",")) {
+        this.next();
+        conds.push(this.parseRelation());
+      }
+      return [["Given", items[0], conds.length === 1 ? conds[0] : ["Tuple", ...conds]]];
+    }
+    while (this.isPunct(",")) {
+      this.next();
+      items.push(this.parseRelation());
+    }
+    return items;
+  }
+
+  private parseRelation(): MathJson {
+    const lhs = this.parseAdditive();
+    if (this.isPunct("=")) {
+      this.next();
+      return ["Equal", lhs, this.parseAdditive()];
+    }
+    return lhs;
+  }
+
+  private parseAdditive(): MathJson {
+    let first: MathJson;
+    if (this.isPunct("-")) {
+      this.next();
+      first = ["Negate", this.parseMultiplicative()];
+    } else {
+      if (this.isPunct("+")) this.next();
+      first = this.parseMultiplicative();
+    }
+    let terms: MathJson[] = [first];
+    while (this.isPunct("+") || this.isPunct("-")) {
+      const op = (this.next() as { value: string }).value;
+      const rhs = this.parseMultiplicative();
+      if (op === "+") {
+        terms.push(rhs);
+      } else {
+        terms = [["Subtract", terms.length === 1 ? terms[0] : ["Add", ...terms], rhs]];
+      }
+    }
+    return terms.length === 1 ? terms[0] : ["Add", ...terms];
+  }
+
+  private parseMultiplicative(): MathJson {
+    let factors: MathJson[] = [this.parsePostfix()];
+    for (;;) {
+      if (this.isCommand("cdot") || this.isCommand("times")) {
+        this.next();
+        factors.push(this.parsePostfix());
+      } else if (this.isPunct("/")) {
+        this.next();
+        const den = this.parsePostfix();
+        factors = [["Divide", factors.length === 1 ? factors[0] : ["Multiply", ...factors], den]];
+      } else if (this.startsTerm()) {
+        factors.push(this.parsePostfix());
+      } else {
+        break;
+      }
+    }
+    return factors.length === 1 ? factors[0] : ["Multiply", ...factors];
+  }
+
+  private startsTerm(): boolean {
+    const t = this.peek();
+    if (t.kind === "number" || t.kind === "letter") return true;
+    if (t.kind === "punct") return t.value === "(" || t.value === "[" || t.value === "{";
+    if (t.kind === "command") return t.value !== "mid" && t.value !== "cdot" && t.value !== "times";
+    return false;
+  }
+
+  private parsePostfix(): MathJson {
+    let expr = this.parsePrimary();
+    for (;;) {
+      if (this.isPunct("_")) {
+        this.next();
+        expr = ["Subscript", expr, this.parseScript()];
+      } else if (this.isPunct("^")) {
+        this.next();
+        expr = ["Power", expr, this.parseScript()];
+      } else if (this.isPunct("'")) {
+        this.next();
+        expr = ["Prime", expr];
+      } else if (this.isPunct("(") && isFunctionHead(expr)) {
+        this.next();
+        const args = this.isPunct(")") ? [] : this.parseList();
+        this.expectPunct(")");
+        expr = typeof expr === "string" ? [expr, ...args] : ["Apply", expr, ...args];
+      } else {
+        return expr;
+      }
+    }
+  }
+
+  /**
+   * The argument of `_` or `^`: a single token or a braced group. A group
+   * may be a time range `{t:T}`, as in the truncated return `G_{t:T}`.
+   */
+  private parseScript(): MathJson {
+    const t = this.peek();
+    if (t.kind === "punct" && t.value === "{") {
+      this.next();
+      const items = this.parseList();
+      if (items.length === 1 && this.isPunct(":")) {
+        this.next();
+        const to = this.parseAdditive();
+        this.expectPunct("}");
+        return ["Range", items[0], to];
+      }
+      this.expectPunct("}");
+      return items.length === 1 ? items[0] : ["Tuple", ...items];
+    }
+    if (t.kind === "punct" && t.value === "*") {
+      this.next();
+      return "star";
+    }
+    if (t.kind === "command" && t.value === "star") {
+      this.next();
+      return "star";
+    }
+    if (t.kind === "number") {
+      // `\gamma^10` means \gamma^1 0 in LaTeX; only the first digit is the script.
+      this.next();
+      const digits = String(t.value);
+      if (digits.length > 1 && Number.isInteger(t.value)) {
+        throw new Error(`Wrap multi-digit scripts in braces at position ${t.pos}`);
+      }
+      return t.value;
+    }
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): MathJson {
+    const t = this.next();
+    switch (t.kind) {
+      case "number":
+        return t.value;
+      case "letter":
+        return t.value;
+      case "punct": {
+        const close = CLOSING[t.value];
+        if (!close) throw new Error(`Unexpected '${t.value}' at position ${t.pos}`);
+        const items = this.parseList();
+        this.expectPunct(close);
+        return items.length === 1 ? items[0] : ["Tuple", ...items];
+      }
+      case "command":
+        return this.parseCommand(t.value, t.pos);
+      case "eof":
+        throw new Error("Unexpected end of input");
+    }
+  }
+
+  private parseCommand(name: string, pos: number): MathJson {
+    if (GREEK_LETTERS.has(name)) return name;
+    if (name === "infty") return "PositiveInfinity";
+    if (name === "mathbb") {
+      const letter = this.parseScript();
+      if (letter !== "E") throw new Error(`Only \\mathbb{E} is supported (position ${pos})`);
+      return this.parseExpectation();
+    }
+    if (name === "frac") {
+      const num = this.parseScript();
+      const den = this.parseScript();
+      return ["Divide", num, den];
+    }
+    if (name in BIG_OPERATORS) return this.parseBigOperator(BIG_OPERATORS[name]);
+    throw new Error(`Unsupported command \\${name} at position ${pos}`);
+  }
+
+  /** `\mathbb{E}[X \mid Z]`, optionally with a subscript such as `\mathbb{E}_\pi`. */
+  private parseExpectation(): MathJson {
+    let sub: MathJson | undefined;
+    if (this.isPunct("_")) {
+      this.next();
+      sub = this.parseScript();
+    }
+    const open = this.next();
+    if (open.kind !== "punct" || (open.value !== "[" && open.value !== "(")) {
+      throw new Error(`Expected '[' after \\mathbb{E} at position ${open.pos}`);
+    }
+    const items = this.parseList();
+    if (items.length !== 1) throw new Error(`Expected a single expression inside \\mathbb{E} at position ${open.pos}`);
+    this.expectPunct(CLOSING[open.value]);
+    return sub === undefined ? ["Expectation", items[0]] : ["Expectation", items[0], sub];
+  }
+
+  /** `\sum_{k=0}^{\infty} body`; the body extends over the following product. */
+  private parseBigOperator(head: string): MathJson {
+    let lower: MathJson | undefined;
+    let upper: MathJson | undefined;
+    while (this.isPunct("_") || this.isPunct("^")) {
+      const which = (this.next() as { value: string }).value;
+      if (which === "_") lower = this.parseScript();
+      else upper = this.parseScript();
+    }
+    const body = this.parseMultiplicative();
+    if (lower === undefined) return [head, body];
+
+    const limits: MathJson[] =
+      Array.isArray(lower) && lower[0] === "Equal" ? ["Tuple", lower[1], lower[2]] : ["Tuple", lower];
+    if (upper !== undefined) limits.push(upper);
+    return [head, body, limits];
+  }
+}
+
+function isFunctionHead(expr: MathJson): boolean {
+  if (typeof expr === "string") return FUNCTION_SYMBOLS.has(expr);
+  return Array.isArray(expr) && expr[0] === "Subscript" && typeof expr[1] === "string" && FUNCTION_SYMBOLS.has(expr[1]);
+}
+
+function describe(t: Token): string {
+  if (t.kind === "eof") return "end of input";
+  if (t.kind === "command") return `\\${t.value}`;
+  return String(t.value);
+}
+
+/** Parse lecture-style LaTeX into MathJSON. Throws on unsupported input. */
+export function parseLatex(latex: string): MathJson {
+  return new Parser(tokenize(canonicalizeLatex(latex))).parseDocument();
+}
@@ -0,0 +1,181 @@
+import type { ExprPath, MathJson } from "../types";
+import { GREEK_LETTERS } from "./latex";
+
+/**
+ * Serialize MathJSON produced by `parseLatex` (or by a rule replacement) back
+ * into lecture-style LaTeX. The output always uses single backslashes and a
+ * fixed spacing convention, so equal expressions serialize identically.
+ */
+
+/**
+ * Wraps the LaTeX of the subexpression at `path`, e.g. in `\htmlData` to
+ * make it clickable. The whole expression and sub/superscripts are not passed.
+ */
+export type Decorate = (latex: string, path: ExprPath) => string;
+
+/** Where the subexpression being serialized sits, when decorating. */
+type Ctx = { path: ExprPath; decorate: Decorate } | undefined;
+
+const child = (ctx: Ctx, index: number): Ctx => ctx && { path: [...ctx.path, index], decorate: ctx.decorate };
+
+const BIG_OPERATORS: Record<string, string> = { Sum: "\\sum", Product: "\\prod", Max: "\\max", Min: "\\min" };
+
+// Binding strength, used to decide when a subexpression needs brackets.
+const PREC_RELATION = 1;
+const PREC_ADD = 2;
+const PREC_MULTIPLY = 3;
+const PREC_ATOM = 5;
+
+function headOf(expr: MathJson): string | undefined {
+  return Array.isArray(expr) ? (expr[0] as string) : undefined;
+}
+
+function precedence(expr: MathJson): number {
+  if (typeof expr === "number") return expr < 0 ? PREC_ADD : PREC_ATOM;
+  switch (headOf(expr)) {
+    case "Equal":
+    case "Given":
+      return PREC_RELATION;
+    case "Add":
+    case "Subtract":
+    case "Negate":
+      return PREC_ADD;
+    case "Multiply":
+    case "Sum":
+    case "Product":
+    case "Max":
+    case "Min":
+      return PREC_MULTIPLY;
+    default:
+      return PREC_ATOM;
+  }
+}
+
+function bracket(latex: string): string {
+  return `\\left[${latex}\\right]`;
+}
+
+function wrap(expr: MathJson, minPrec: number, ctx: Ctx): string {
+  const s = serialize(expr, ctx);
+  return precedence(expr) < minPrec ? bracket(s) : s;
+}
+
+/** Braces around a sub/superscript unless it is a single character; `R_{t+1}` stays compact. */
+function script(expr: MathJson): string {
+  const s = serializeLatex(expr).replace(/ ([+-]) /g, "$1");
+  return s.length === 1 ? s : `{${s}}`;
+}
+
+function symbol(name: string): string {
+  if (GREEK_LETTERS.has(name)) return `\\${name}`;
+  if (name === "PositiveInfinity") return "\\infty";
+  if (name === "star") return "*";
+  // Pattern wildcards (`_X`, `__Y`) display as their bare names.
+  return name.replace(/^_+/, "");
+}
+
+function serializeAdd(terms: MathJson[], ctx: Ctx): string {
+  return terms
+    .map((t, i) => {
+      if (i > 0 && headOf(t) === "Negate") return `- ${wrap((t as MathJson[])[1], PREC_MULTIPLY, child(child(ctx, i + 1), 1))}`;
+      if (i > 0 && typeof t === "number" && t < 0) return `- ${-t}`;
+      return (i > 0 ? "+ " : "") + serialize(t, child(ctx, i + 1));
+    })
+    .join(" ");
+}
+
+function serializeMultiply(factors: MathJson[], ctx: Ctx): string {
+  let out = "";
+  factors.forEach((f, i) => {
+    const isLast = i === factors.length - 1;
+    const head = headOf(f);
+    // A big operator swallows everything to its right, so only the last factor may be bare.
+    const needsBracket = precedence(f) < PREC_MULTIPLY || (!isLast && head !== undefined && head in BIG_OPERATORS);
+    const s = needsBracket ? bracket(serialize(f, child(ctx, i + 1))) : serialize(f, child(ctx, i + 1));
+    if (i === 0) out = s;
+    // Decorations hide the leading digit, so test the plain form.
+    else if (/^[0-9]/.test(ctx ? serializeLatex(f) : s)) out += ` \\cdot ${s}`;
+    else if (head === "Expectation") out += `\\,${s}`;
+    else out += ` ${s}`;
+  });
+  return out;
+}
+
+function serializeBigOperator(head: string, args: MathJson[], ctx: Ctx): string {
+  const [body, limits] = args;
+  let op = BIG_OPERATORS[head];
+  if (Array.isArray(limits) && limits[0] === "Tuple") {
+    const [, index, lower, upper] = limits;
+    if (index !== undefined) {
+      op += lower === undefined ? `_${script(index)}` : `_{${serializeLatex(index)}=${serializeLatex(lower)}}`;
+    }
+    if (upper !== undefined) op += `^${script(upper)}`;
+  }
+  return `${op} ${wrap(body, PREC_MULTIPLY, child(ctx, 1))}`;
+}
+
+/** Serialize `expr`; with `decorate`, every proper subexpression is passed through it. */
+export function serializeLatex(expr: MathJson, decorate?: Decorate): string {
+  return serialize(expr, decorate && { path: [], decorate });
+}
+
+function serialize(expr: MathJson, ctx: Ctx): string {
+  const latex = serializeNode(expr, ctx);
+  return ctx && ctx.path.length > 0 ? ctx.decorate(latex, ctx.path) : latex;
+}
+
+function serializeNode(expr: MathJson, ctx: Ctx): string {
+  if (typeof expr === "number") return String(expr);
+  if (typeof expr === "string") return symbol(expr);
+
+  const [op, ...args] = expr;
+  const head = op as string;
+  // Operand i sits at index i + 1 of the MathJSON array.
+  const arg = (i: number) => serialize(args[i], child(ctx, i + 1));
+  const list = (from: number) => args.slice(from).map((_, i) => arg(from + i)).join(", ");
+  switch (head) {
+    case "Equal":
+      return `${arg(0)} = ${arg(1)}`;
+    case "Given":
+      return `${arg(0)} \\mid ${serializeGivenCondition(args[1], child(ctx, 2))}`;
+    case "Add":
+      return serializeAdd(args, ctx);
+    case "Subtract":
+      return `${arg(0)} - ${wrap(args[1], PREC_MULTIPLY, child(ctx, 2))}`;
+    case "Negate":
+      return `-${wrap(args[0], PREC_MULTIPLY, child(ctx, 1))}`;
+    case "Multiply":
+      return serializeMultiply(args, ctx);
+    case "Divide":
+      return `\\frac{${arg(0)}}{${arg(1)}}`;
+    case "Power":
+      return `${wrap(args[0], PREC_ATOM, child(ctx, 1))}^${script(args[1])}`;
+    case "Subscript":
+      return `${wrap(args[0], PREC_ATOM, child(ctx, 1))}_${script(args[1])}`;
+    case "Prime":
+      return `${wrap(args[0], PREC_ATOM, child(ctx, 1))}'`;
+    case "Expectation": {
+      const sub = args[1] === undefined ? "" : `_${script(args[1])}`;
+      return `\\mathbb{E}${sub}[${arg(0)}]`;
+    }
+    case "Range":
+      return `${arg(0)}:${arg(1)}`;
+    case "Tuple":
+      return `(${list(0)})`;
+    case "Apply":
+      return `${arg(0)}(${list(1)})`;
+    default:
+      if (head in BIG_OPERATORS) return serializeBigOperator(head, args, ctx);
+      return `${symbol(head)}(${list(0)})`;
+  }
+}
+
+function serializeGivenCondition(cond: MathJson, ctx: Ctx): string {
+  if (headOf(cond) === "Tuple") {
+    return (cond as MathJson[])
+      .slice(1)
+      .map((c, i) => serialize(c, child(ctx, i + 1)))
+      .join(", ");
+  }
+  return serialize(cond, ctx);
+}
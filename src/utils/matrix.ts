@@ -22,13 +22,40 @@ function cloneMat(A: Mat): Mat {
   return A.map(row => row.slice());
 }
 
+/** The augmented matrix [A | b] after a step of Gaussian elimination. */
+export type Augmented<T> = { A: T[][]; b: T[] };
+
+/**
+ * One step of Gaussian elimination. Rows are 0-based; `eliminate` subtracts
+ * `factor` times the pivot row, and `back-substitute` solves row `row` for
+ * x[row] once the matrix is upper triangular.
+ */
+export type EliminationStep<T = number> = Augmented<T> &
+  (
+    | { kind: "pivot"; col: number; row: number }
+    | { kind: "swap"; rows: [number, number] }
+    | { kind: "eliminate"; row: number; pivotRow: number; factor: T }
+    | { kind: "back-substitute"; row: number; value: T }
+  );
+
+export type TracedSolution<T = number> = { x: T[]; trace: EliminationStep<T>[] };
+
+export type SolveOptions = {
+  /** Also return every pivot choice, swap, elimination and back-substitution */
+  trace: true;
+};
+
 /**
  * Solve Ax = b using Gaussian elimination with partial pivoting
  */
-export function solveLinearSystem(Ain: Mat, bIn: Vec): Vec {
+export function solveLinearSystem(Ain: Mat, bIn: Vec): Vec;
+export function solveLinearSystem(Ain: Mat, bIn: Vec, options: SolveOptions): TracedSolution;
+export function solveLinearSystem(Ain: Mat, bIn: Vec, options?: SolveOptions): Vec | TracedSolution {
   const A = cloneMat(Ain);
   const b = bIn.slice();
   const n = A.length;
+  const trace: EliminationStep[] = [];
+  const snapshot = () => ({ A: cloneMat(A), b: b.slice() });
 
   if (b.length !== n) throw new Error("b length mismatch");
 
@@ -41,15 +68,20 @@ export function solveLinearSystem(Ain: Mat, bIn: Vec): Vec {
     if (Math.abs(A[pivot][col]) < 1e-12) {
       throw new Error("Matrix is singular or ill-conditioned");
     }
+    if (options?.trace) trace.push({ kind: "pivot", col, row: pivot, ...snapshot() });
 
-    [A[col], A[pivot]] = [A[pivot], A[col]];
-    [b[col], b[pivot]] = [b[pivot], b[col]];
+    if (pivot !== col) {
+      [A[col], A[pivot]] = [A[pivot], A[col]];
+      [b[col], b[pivot]] = [b[pivot], b[col]];
+      if (options?.trace) trace.push({ kind: "swap", rows: [col, pivot], ...snapshot() });
+    }
 
     // Eliminate
     for (let r = col + 1; r < n; r++) {
       const factor = A[r][col] / A[col][col];
       for (let c = col; c < n; c++) A[r][c] -= factor * A[col][c];
       b[r] -= factor * b[col];
+      if (options?.trace && factor !== 0) trace.push({ kind: "eliminate", row: r, pivotRow: col, factor, ...snapshot() });
     }
   }
 
@@ -59,6 +91,375 @@ export function solveLinearSystem(Ain: Mat, bIn: Vec): Vec {
     let sum = b[r];
     for (let c = r + 1; c < n; c++) sum -= A[r][c] * x[c];
     x[r] = sum / A[r][r];
+    if (options?.trace) trace.push({ kind: "back-substitute", row: r, value: x[r], ...snapshot() });
+  }
+  return options?.trace ? { x, trace } : x;
+}
+
+export function matVec(A: Mat, x: Vec): Vec {
+  return A.map(row => row.reduce((acc, v, j) => acc + v * x[j], 0));
+}
+
+/** max_i |a_i - b_i| */
+export function supNormDistance(a: Vec, b: Vec): number {
+  return a.reduce((acc, v, i) => Math.max(acc, Math.abs(v - b[i])), 0);
+}
+
+/**
+ * One synchronous Bellman backup for an MRP: V' = R + γ P V
+ */
+export function bellmanBackup(P: Mat, R: Vec, gamma: number, V: Vec): Vec {
+  const PV = matVec(P, V);
+  return R.map((r, i) => r + gamma * PV[i]);
+}
+
+/**
+ * Solve diagonal * v = rhs for one state. An absorbing state under γ = 1 has
+ * a zero diagonal and no equation for its value, so it keeps the current one
+ */
+function solveForState(rhs: number, diagonal: number, current: number): number {
+  return diagonal === 0 ? current : rhs / diagonal;
+}
+
+/**
+ * One Jacobi sweep on (I - γP) V = R: each state is solved for exactly,
+ * using only values from the previous sweep for the other states
+ */
+export function jacobiSweep(P: Mat, R: Vec, gamma: number, V: Vec): Vec {
+  return R.map((r, i) => {
+    let sum = r;
+    for (let j = 0; j < V.length; j++) if (j !== i) sum += gamma * P[i][j] * V[j];
+    return solveForState(sum, 1 - gamma * P[i][i], V[i]);
+  });
+}
+
+/**
+ * One Gauss–Seidel sweep on (I - γP) V = R: like Jacobi, but states later
+ * in the sweep already use the values updated earlier in it
+ */
+export function gaussSeidelSweep(P: Mat, R: Vec, gamma: number, V: Vec): Vec {
+  const next = V.slice();
+  for (let i = 0; i < next.length; i++) {
+    let sum = R[i];
+    for (let j = 0; j < next.length; j++) if (j !== i) sum += gamma * P[i][j] * next[j];
+    next[i] = solveForState(sum, 1 - gamma * P[i][i], next[i]);
+  }
+  return next;
+}
+
+export type IterativeMethod = "backup" | "jacobi" | "gauss-seidel";
+
+export type IterationOptions = {
+  /** Stop once successive iterates differ by less than this in the sup norm */
+  tolerance?: number;
+  maxIterations?: number;
+  /** Starting point, zero by default */
+  V0?: Vec;
+};
+
+export type IterationTrace = {
+  /** V_0, V_1, ..., the last one being the result */
+  iterates: Vec[];
+  converged: boolean;
+};
+
+const SWEEPS: Record<IterativeMethod, (P: Mat, R: Vec, gamma: number, V: Vec) => Vec> = {
+  backup: bellmanBackup,
+  jacobi: jacobiSweep,
+  "gauss-seidel": gaussSeidelSweep,
+};
+
+/**
+ * Iterative policy evaluation: repeat the chosen sweep from V0 until the
+ * change falls below the tolerance or the iteration limit is reached
+ */
+export function evaluateIteratively(
+  P: Mat,
+  R: Vec,
+  gamma: number,
+  method: IterativeMethod,
+  { tolerance = 1e-8, maxIterations = 500, V0 }: IterationOptions = {}
+): IterationTrace {
+  if (R.length !== P.length) throw new Error("R length mismatch");
+  const sweep = SWEEPS[method];
+  const iterates = [V0 ? V0.slice() : Array(P.length).fill(0)];
+  for (let k = 0; k < maxIterations; k++) {
+    const V = iterates[iterates.length - 1];
+    const next = sweep(P, R, gamma, V);
+    if (next.some(v => !Number.isFinite(v))) throw new Error("Iteration diverged");
+    iterates.push(next);
+    if (supNormDistance(next, V) < tolerance) return { iterates, converged: true };
+  }
+  return { iterates, converged: false };
+}
+
+export function transpose(A: Mat): Mat {
+  return A[0] ? A[0].map((_, j) => A.map(row => row[j])) : [];
+}
+
+/**
+ * PA = LU with partial pivoting: L is unit lower triangular and U upper
+ * triangular, packed into one matrix, and row i of PA is row perm[i] of A.
+ */
+export type LuFactors = { LU: Mat; perm: number[] };
+
+/** Factor A once, so that several right-hand sides cost O(n²) each. Throws if A is singular. */
+export function luDecompose(A: Mat): LuFactors {
+  const LU = cloneMat(A);
+  const n = LU.length;
+  const perm = Array.from({ length: n }, (_, i) => i);
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let r = col + 1; r < n; r++) {
+      if (Math.abs(LU[r][col]) > Math.abs(LU[pivot][col])) pivot = r;
+    }
+    if (Math.abs(LU[pivot][col]) < 1e-12) {
+      throw new Error("Matrix is singular or ill-conditioned");
+    }
+    if (pivot !== col) {
+      [LU[col], LU[pivot]] = [LU[pivot], LU[col]];
+      [perm[col], perm[pivot]] = [perm[pivot], perm[col]];
+    }
+    for (let r = col + 1; r < n; r++) {
+      const factor = LU[r][col] / LU[col][col];
+      LU[r][col] = factor;
+      if (factor === 0) continue;
+      for (let c = col + 1; c < n; c++) LU[r][c] -= factor * LU[col][c];
+    }
+  }
+  return { LU, perm };
+}
+
+/** Solve Ax = b from the factors of A: forward substitution with L, then back substitution with U. */
+export function luSolve({ LU, perm }: LuFactors, b: Vec): Vec {
+  const n = LU.length;
+  if (b.length !== n) throw new Error("b length mismatch");
+  const x = perm.map(i => b[i]);
+  for (let r = 1; r < n; r++) {
+    for (let c = 0; c < r; c++) x[r] -= LU[r][c] * x[c];
+  }
+  for (let r = n - 1; r >= 0; r--) {
+    for (let c = r + 1; c < n; c++) x[r] -= LU[r][c] * x[c];
+    x[r] /= LU[r][r];
   }
   return x;
 }
+
+/** A^{-1}, one column at a time from a single factorization; throws if A is singular. */
+export function invert(A: Mat): Mat {
+  const lu = luDecompose(A);
+  return transpose(identity(A.length).map(e => luSolve(lu, e)));
+}
+
+/** Maximum absolute row sum, the operator norm induced by the sup norm. */
+export function matNormInf(A: Mat): number {
+  return A.reduce((acc, row) => Math.max(acc, row.reduce((s, v) => s + Math.abs(v), 0)), 0);
+}
+
+/**
+ * κ∞(A) = ‖A‖∞ ‖A^{-1}‖∞: roughly how many times a relative change in b can
+ * be amplified in the solution of Ax = b. Infinity when A is singular.
+ */
+export function conditionNumber(A: Mat): number {
+  try {
+    return matNormInf(A) * matNormInf(invert(A));
+  } catch {
+    return Infinity;
+  }
+}
+
+/**
+ * The distribution π with πP = π and Σπ = 1, for a chain with a single
+ * closed class. One equation of (P^T - I)π = 0 is redundant and is replaced
+ * by the normalization.
+ */
+export function stationaryDistribution(P: Mat): Vec {
+  const n = P.length;
+  const A = matSub(transpose(P), identity(n));
+  A[n - 1] = Array(n).fill(1);
+  const b = Array(n).fill(0);
+  b[n - 1] = 1;
+  try {
+    return solveLinearSystem(A, b);
+  } catch {
+    throw new Error("P has no unique stationary distribution");
+  }
+}
+
+export type Complex = { re: number; im: number };
+
+const sign = (a: number, b: number) => (b >= 0 ? Math.abs(a) : -Math.abs(a));
+
+/** Reduce A to upper Hessenberg form with the same eigenvalues, by elimination with pivoting. */
+function hessenberg(A: Mat): Mat {
+  const a = cloneMat(A);
+  const n = a.length;
+  for (let m = 1; m < n - 1; m++) {
+    let x = 0;
+    let i = m;
+    for (let j = m; j < n; j++) {
+      if (Math.abs(a[j][m - 1]) > Math.abs(x)) {
+        x = a[j][m - 1];
+        i = j;
+      }
+    }
+    if (i !== m) {
+      for (let j = m - 1; j < n; j++) [a[i][j], a[m][j]] = [a[m][j], a[i][j]];
+      for (let j = 0; j < n; j++) [a[j][i], a[j][m]] = [a[j][m], a[j][i]];
+    }
+    if (x === 0) continue;
+    for (i = m + 1; i < n; i++) {
+      const y = a[i][m - 1] / x;
+      if (y === 0) continue;
+      a[i][m - 1] = 0;
+      for (let j = m; j < n; j++) a[i][j] -= y * a[m][j];
+      for (let j = 0; j < n; j++) a[j][m] += y * a[j][i];
+    }
+  }
+  return a;
+}
+
+/**
+ * Eigenvalues of a real square matrix, by the shifted QR algorithm (Francis
+ * double shift) on its Hessenberg form. Complex ones come in conjugate pairs.
+ */
+export function eigenvalues(A: Mat): Complex[] {
+  const a = hessenberg(A);
+  const n = a.length;
+  const wr: number[] = Array(n).fill(0);
+  const wi: number[] = Array(n).fill(0);
+  let anorm = 0;
+  for (let i = 0; i < n; i++) for (let j = Math.max(i - 1, 0); j < n; j++) anorm += Math.abs(a[i][j]);
+
+  let nn = n - 1;
+  let t = 0;
+  while (nn >= 0) {
+    let its = 0;
+    let l: number;
+    do {
+      // Look for a negligible subdiagonal element that splits the matrix.
+      for (l = nn; l >= 1; l--) {
+        let s = Math.abs(a[l - 1][l - 1]) + Math.abs(a[l][l]);
+        if (s === 0) s = anorm;
+        if (Math.abs(a[l][l - 1]) + s === s) {
+          a[l][l - 1] = 0;
+          break;
+        }
+      }
+      let x = a[nn][nn];
+      if (l === nn) {
+        // One root found.
+        wr[nn] = x + t;
+        wi[nn--] = 0;
+      } else {
+        let y = a[nn - 1][nn - 1];
+        let w = a[nn][nn - 1] * a[nn - 1][nn];
+        if (l === nn - 1) {
+          // Two roots found, real or a complex pair.
+          const p = 0.5 * (y - x);
+          const q = p * p + w;
+          let z = Math.sqrt(Math.abs(q));
+          x += t;
+          if (q >= 0) {
+            z = p + sign(z, p);
+            wr[nn - 1] = wr[nn] = x + z;
+            if (z !== 0) wr[nn] = x - w / z;
+            wi[nn - 1] = wi[nn] = 0;
+          } else {
+            wr[nn - 1] = wr[nn] = x + p;
+            wi[nn - 1] = -(wi[nn] = z);
+          }
+          nn -= 2;
+        } else {
+          if (its === 30) throw new Error("Eigenvalues did not converge");
+          if (its === 10 || its === 20) {
+            // Exceptional shift.
+            t += x;
+            for (let i = 0; i <= nn; i++) a[i][i] -= x;
+            const s = Math.abs(a[nn][nn - 1]) + Math.abs(a[nn - 1][nn - 2]);
+            y = x = 0.75 * s;
+            w = -0.4375 * s * s;
+          }
+          ++its;
+          let m: number;
+          let p = 0;
+          let q = 0;
+          let r = 0;
+          let z = 0;
+          for (m = nn - 2; m >= l; m--) {
+            z = a[m][m];
+            r = x - z;
+            const s0 = y - z;
+            p = (r * s0 - w) / a[m + 1][m] + a[m][m + 1];
+            q = a[m + 1][m + 1] - z - r - s0;
+            r = a[m + 2][m + 1];
+            const s = Math.abs(p) + Math.abs(q) + Math.abs(r);
+            p /= s;
+            q /= s;
+            r /= s;
+            if (m === l) break;
+            const u = Math.abs(a[m][m - 1]) * (Math.abs(q) + Math.abs(r));
+            const v = Math.abs(p) * (Math.abs(a[m - 1][m - 1]) + Math.abs(z) + Math.abs(a[m + 1][m + 1]));
+            if (u + v === v) break;
+          }
+          for (let i = m + 2; i <= nn; i++) {
+            a[i][i - 2] = 0;
+            if (i !== m + 2) a[i][i - 3] = 0;
+          }
+          // Double QR step on rows l..nn and columns m..nn.
+          for (let k = m; k <= nn - 1; k++) {
+            if (k !== m) {
+              p = a[k][k - 1];
+              q = a[k + 1][k - 1];
+              r = k !== nn - 1 ? a[k + 2][k - 1] : 0;
+              x = Math.abs(p) + Math.abs(q) + Math.abs(r);
+              if (x !== 0) {
+                p /= x;
+                q /= x;
+                r /= x;
+              }
+            }
+            const s = sign(Math.sqrt(p * p + q * q + r * r), p);
+            if (s === 0) continue;
+            if (k === m) {
+              if (l !== m) a[k][k - 1] = -a[k][k - 1];
+            } else {
+              a[k][k - 1] = -s * x;
+            }
+            p += s;
+            x = p / s;
+            y = q / s;
+            z = r / s;
+            q /= p;
+            r /= p;
+            for (let j = k; j <= nn; j++) {
+              p = a[k][j] + q * a[k + 1][j];
+              if (k !== nn - 1) {
+                p += r * a[k + 2][j];
+                a[k + 2][j] -= p * z;
+              }
+              a[k + 1][j] -= p * y;
+              a[k][j] -= p * x;
+            }
+            const mmin = nn < k + 3 ? nn : k + 3;
+            for (let i = l; i <= mmin; i++) {
+              p = x * a[i][k] + y * a[i][k + 1];
+              if (k !== nn - 1) {
+                p += z * a[i][k + 2];
+                a[i][k + 2] -= p * r;
+              }
+              a[i][k + 1] -= p * q;
+              a[i][k] -= p;
+            }
+          }
+        }
+      }
+    } while (l < nn - 1);
+  }
+  return wr.map((re, i) => ({ re, im: wi[i] }));
+}
+
+/** max |λ| over the eigenvalues of A. */
+export function spectralRadius(A: Mat): number {
+  return eigenvalues(A).reduce((acc, { re, im }) => Math.max(acc, Math.hypot(re, im)), 0);
+}
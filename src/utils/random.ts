@@ -0,0 +1,32 @@
+/** A small seeded PRNG (mulberry32) so random instances are reproducible. */
+export function createRng(seed: number): () => number {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/** Uniform float in [lo, hi). */
+export function uniform(rand: () => number, lo: number, hi: number): number {
+  return lo + (hi - lo) * rand();
+}
+
+/** Uniform integer in [lo, hi]. */
+export function randomInt(rand: () => number, lo: number, hi: number): number {
+  return lo + Math.floor(rand() * (hi - lo + 1));
+}
+
+/** Index drawn with the given probabilities (which should sum to 1). */
+export function sampleIndex(rand: () => number, probabilities: number[]): number {
+  let u = rand();
+  for (let i = 0; i < probabilities.length; i++) {
+    u -= probabilities[i];
+    if (u < 0) return i;
+  }
+  // Round-off can leave a sliver of mass; give it to the last possible outcome.
+  return probabilities.reduce((last, p, i) => (p > 0 ? i : last), probabilities.length - 1);
+}
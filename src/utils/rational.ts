@@ -0,0 +1,136 @@
+import type { EliminationStep, SolveOptions, TracedSolution } from "./matrix";
+
+/**
+ * Exact rational numbers on BigInt, for textbook MRPs whose probabilities are
+ * fractions: always reduced, with a positive denominator.
+ */
+export type Rational = { num: bigint; den: bigint };
+export type RatVec = Rational[];
+export type RatMat = Rational[][];
+
+const gcd = (a: bigint, b: bigint): bigint => {
+  a = a < 0n ? -a : a;
+  b = b < 0n ? -b : b;
+  while (b !== 0n) [a, b] = [b, a % b];
+  return a;
+};
+
+export function rational(num: bigint, den: bigint = 1n): Rational {
+  if (den === 0n) throw new Error("Division by zero");
+  if (den < 0n) [num, den] = [-num, -den];
+  const g = gcd(num, den);
+  return g > 1n ? { num: num / g, den: den / g } : { num, den };
+}
+
+export const ZERO = rational(0n);
+export const ONE = rational(1n);
+
+export const add = (a: Rational, b: Rational) => rational(a.num * b.den + b.num * a.den, a.den * b.den);
+export const sub = (a: Rational, b: Rational) => rational(a.num * b.den - b.num * a.den, a.den * b.den);
+export const mul = (a: Rational, b: Rational) => rational(a.num * b.num, a.den * b.den);
+export const div = (a: Rational, b: Rational) => rational(a.num * b.den, a.den * b.num);
+export const isZero = (a: Rational) => a.num === 0n;
+export const equals = (a: Rational, b: Rational) => a.num === b.num && a.den === b.den;
+
+export const toNumber = (a: Rational) => Number(a.num) / Number(a.den);
+
+/** `5/19`, or `-3` for integers. */
+export const ratToString = (a: Rational) => (a.den === 1n ? String(a.num) : `${a.num}/${a.den}`);
+
+/** `\frac{5}{19}`, with the sign in front of the fraction. */
+export function ratToLatex(a: Rational): string {
+  if (a.den === 1n) return String(a.num);
+  const sign = a.num < 0n ? "-" : "";
+  return `${sign}\\frac{${a.num < 0n ? -a.num : a.num}}{${a.den}}`;
+}
+
+const DECIMAL = /^([+-]?)(\d*)(?:\.(\d*))?(?:[eE]([+-]?\d+))?$/;
+
+/** An integer or decimal, written out exactly: `0.25` is 1/4 and `1e-3` is 1/1000. */
+function parseDecimal(text: string): Rational | null {
+  const m = DECIMAL.exec(text);
+  if (!m || (m[2] === "" && (m[3] ?? "") === "")) return null;
+  const [, sign, whole, frac = "", exp = "0"] = m;
+  const shift = Number(exp) - frac.length;
+  if (Math.abs(shift) > 400) return null;
+  let num = BigInt(whole + frac || "0");
+  if (sign === "-") num = -num;
+  const scale = 10n ** BigInt(Math.abs(shift));
+  return shift >= 0 ? rational(num * scale) : rational(num, scale);
+}
+
+/**
+ * Read a number as typed: an integer, a decimal or a fraction `p/q` of
+ * those, such as `1/3` or `0.5/3`. Null when the text is none of them.
+ */
+export function parseRational(text: string): Rational | null {
+  const parts = text.trim().split("/");
+  if (parts.length > 2) return null;
+  const [p, q] = parts.map((s) => parseDecimal(s.trim()));
+  if (!p) return null;
+  if (parts.length === 1) return p;
+  return q && !isZero(q) ? div(p, q) : null;
+}
+
+/** The exact value of a finite double, via the decimal it prints as. */
+export const fromNumber = (x: number): Rational | null => (Number.isFinite(x) ? parseDecimal(String(x)) : null);
+
+export function ratIdentity(n: number): RatMat {
+  return Array.from({ length: n }, (_, i) => Array.from({ length: n }, (_, j) => (i === j ? ONE : ZERO)));
+}
+
+export function ratMatScale(A: RatMat, c: Rational): RatMat {
+  return A.map(row => row.map(v => mul(c, v)));
+}
+
+export function ratMatSub(A: RatMat, B: RatMat): RatMat {
+  if (A.length !== B.length || A[0].length !== B[0].length) {
+    throw new Error("Matrix shape mismatch");
+  }
+  return A.map((row, i) => row.map((v, j) => sub(v, B[i][j])));
+}
+
+/**
+ * Solve Ax = b exactly by Gaussian elimination. Any non-zero pivot will do,
+ * since there is no rounding error to keep small; the first one is taken.
+ */
+export function solveRationalSystem(Ain: RatMat, bIn: RatVec): RatVec;
+export function solveRationalSystem(Ain: RatMat, bIn: RatVec, options: SolveOptions): TracedSolution<Rational>;
+export function solveRationalSystem(Ain: RatMat, bIn: RatVec, options?: SolveOptions): RatVec | TracedSolution<Rational> {
+  const A = Ain.map(row => row.slice());
+  const b = bIn.slice();
+  const n = A.length;
+  const trace: EliminationStep<Rational>[] = [];
+  const snapshot = () => ({ A: A.map(row => row.slice()), b: b.slice() });
+
+  if (b.length !== n) throw new Error("b length mismatch");
+
+  for (let col = 0; col < n; col++) {
+    const pivot = A.findIndex((row, r) => r >= col && !isZero(row[col]));
+    if (pivot === -1) throw new Error("Matrix is singular");
+    if (options?.trace) trace.push({ kind: "pivot", col, row: pivot, ...snapshot() });
+
+    if (pivot !== col) {
+      [A[col], A[pivot]] = [A[pivot], A[col]];
+      [b[col], b[pivot]] = [b[pivot], b[col]];
+      if (options?.trace) trace.push({ kind: "swap", rows: [col, pivot], ...snapshot() });
+    }
+
+    for (let r = col + 1; r < n; r++) {
+      if (isZero(A[r][col])) continue;
+      const factor = div(A[r][col], A[col][col]);
+      for (let c = col; c < n; c++) A[r][c] = sub(A[r][c], mul(factor, A[col][c]));
+      b[r] = sub(b[r], mul(factor, b[col]));
+      if (options?.trace) trace.push({ kind: "eliminate", row: r, pivotRow: col, factor, ...snapshot() });
+    }
+  }
+
+  const x: RatVec = Array(n).fill(ZERO);
+  for (let r = n - 1; r >= 0; r--) {
+    let sum = b[r];
+    for (let c = r + 1; c < n; c++) sum = sub(sum, mul(A[r][c], x[c]));
+    x[r] = div(sum, A[r][r]);
+    if (options?.trace) trace.push({ kind: "back-substitute", row: r, value: x[r], ...snapshot() });
+  }
+  return options?.trace ? { x, trace } : x;
+}
@@ -0,0 +1,184 @@
+import type { Mat, Vec } from "./matrix";
+
+/**
+ * Sparse matrices in compressed sparse row form, and iterative solvers for
+ * the large, mostly empty systems (I - γP)V = R of gridworld-sized MRPs.
+ * Row i's entries are values[rowPtr[i]] .. values[rowPtr[i + 1] - 1], in
+ * columns colIdx[...] likewise.
+ */
+export type Csr = {
+  n: number;
+  rowPtr: Int32Array;
+  colIdx: Int32Array;
+  values: Float64Array;
+};
+
+/** A CSR matrix from its rows, each a list of [column, value] pairs. */
+export function csrFromRows(rows: [number, number][][]): Csr {
+  const n = rows.length;
+  const nnz = rows.reduce((acc, row) => acc + row.length, 0);
+  const rowPtr = new Int32Array(n + 1);
+  const colIdx = new Int32Array(nnz);
+  const values = new Float64Array(nnz);
+  let k = 0;
+  rows.forEach((row, i) => {
+    for (const [j, v] of [...row].sort((a, b) => a[0] - b[0])) {
+      colIdx[k] = j;
+      values[k++] = v;
+    }
+    rowPtr[i + 1] = k;
+  });
+  return { n, rowPtr, colIdx, values };
+}
+
+/** The non-zero entries of a dense matrix. */
+export function csrFromDense(A: Mat): Csr {
+  return csrFromRows(A.map(row => row.flatMap((v, j): [number, number][] => (v !== 0 ? [[j, v]] : []))));
+}
+
+export function csrMatVec(A: Csr, x: ArrayLike<number>): Vec {
+  const y: Vec = Array(A.n).fill(0);
+  for (let i = 0; i < A.n; i++) {
+    let sum = 0;
+    for (let k = A.rowPtr[i]; k < A.rowPtr[i + 1]; k++) sum += A.values[k] * x[A.colIdx[k]];
+    y[i] = sum;
+  }
+  return y;
+}
+
+const dot = (a: Vec, b: Vec) => a.reduce((acc, v, i) => acc + v * b[i], 0);
+const norm = (a: Vec) => Math.sqrt(dot(a, a));
+
+/** ‖b - Ax‖₂ / ‖b‖₂, or ‖b - Ax‖₂ when b = 0. */
+export function relativeResidual(A: Csr, x: Vec, b: Vec): number {
+  const Ax = csrMatVec(A, x);
+  const r = norm(b.map((v, i) => v - Ax[i]));
+  const nb = norm(b);
+  return nb > 0 ? r / nb : r;
+}
+
+function diagonal(A: Csr): Vec {
+  const d: Vec = Array(A.n).fill(0);
+  for (let i = 0; i < A.n; i++) {
+    for (let k = A.rowPtr[i]; k < A.rowPtr[i + 1]; k++) if (A.colIdx[k] === i) d[i] = A.values[k];
+  }
+  return d;
+}
+
+export type SparseMethod = "bicgstab" | "gauss-seidel";
+
+export type SparseOptions = {
+  method?: SparseMethod;
+  /** Stop once the relative residual ‖b - Ax‖ / ‖b‖ falls below this */
+  tolerance?: number;
+  maxIterations?: number;
+  x0?: Vec;
+  /** Called with the relative residual after every iteration */
+  onIteration?: (iteration: number, residual: number) => void;
+};
+
+export type SparseSolution = {
+  x: Vec;
+  iterations: number;
+  /** Relative residual after each iteration, the last one being the result's */
+  residuals: number[];
+  converged: boolean;
+};
+
+/**
+ * Gauss–Seidel sweeps, which converge for (I - γP) with γ < 1 since it is
+ * strictly diagonally dominant by rows. A zero diagonal, as for an absorbing
+ * state under γ = 1, leaves that unknown as it is.
+ */
+function gaussSeidel(A: Csr, b: Vec, x: Vec, tolerance: number, maxIterations: number, onIteration: SparseOptions["onIteration"]): SparseSolution {
+  const residuals: number[] = [];
+  for (let it = 1; it <= maxIterations; it++) {
+    for (let i = 0; i < A.n; i++) {
+      let sum = b[i];
+      let diag = 0;
+      for (let k = A.rowPtr[i]; k < A.rowPtr[i + 1]; k++) {
+        const j = A.colIdx[k];
+        if (j === i) diag = A.values[k];
+        else sum -= A.values[k] * x[j];
+      }
+      if (diag !== 0) x[i] = sum / diag;
+    }
+    const residual = relativeResidual(A, x, b);
+    if (!Number.isFinite(residual)) throw new Error("Iteration diverged");
+    residuals.push(residual);
+    onIteration?.(it, residual);
+    if (residual < tolerance) return { x, iterations: it, residuals, converged: true };
+  }
+  return { x, iterations: maxIterations, residuals, converged: false };
+}
+
+/**
+ * BiCGSTAB with a Jacobi (diagonal) preconditioner, for non-symmetric
+ * systems; it usually needs far fewer iterations than Gauss–Seidel as γ → 1.
+ */
+function bicgstab(A: Csr, b: Vec, x: Vec, tolerance: number, maxIterations: number, onIteration: SparseOptions["onIteration"]): SparseSolution {
+  const d = diagonal(A);
+  const precondition = (v: Vec) => v.map((vi, i) => (d[i] !== 0 ? vi / d[i] : vi));
+  const nb = norm(b) || 1;
+  const Ax = csrMatVec(A, x);
+  let r = b.map((v, i) => v - Ax[i]);
+  let rHat = r.slice();
+  let rho = 1;
+  let alpha = 1;
+  let omega = 1;
+  let v: Vec = Array(A.n).fill(0);
+  let p: Vec = Array(A.n).fill(0);
+  const residuals: number[] = [];
+  if (norm(r) / nb < tolerance) return { x, iterations: 0, residuals: [norm(r) / nb], converged: true };
+
+  for (let it = 1; it <= maxIterations; it++) {
+    let rhoNext = dot(rHat, r);
+    if (rhoNext === 0) {
+      // Breakdown: restart with the current residual as the shadow vector.
+      rHat = r.slice();
+      rhoNext = dot(rHat, r);
+      p = Array(A.n).fill(0);
+      v = Array(A.n).fill(0);
+      rho = alpha = omega = 1;
+    }
+    const beta = (rhoNext / rho) * (alpha / omega);
+    p = r.map((ri, i) => ri + beta * (p[i] - omega * v[i]));
+    const y = precondition(p);
+    v = csrMatVec(A, y);
+    alpha = rhoNext / dot(rHat, v);
+    const s = r.map((ri, i) => ri - alpha * v[i]);
+    if (norm(s) / nb < tolerance) {
+      y.forEach((yi, i) => (x[i] += alpha * yi));
+      const residual = relativeResidual(A, x, b);
+      residuals.push(residual);
+      onIteration?.(it, residual);
+      return { x, iterations: it, residuals, converged: true };
+    }
+    const z = precondition(s);
+    const t = csrMatVec(A, z);
+    omega = dot(t, s) / dot(t, t);
+    x.forEach((_, i) => (x[i] += alpha * y[i] + omega * z[i]));
+    r = s.map((si, i) => si - omega * t[i]);
+    rho = rhoNext;
+
+    const residual = norm(r) / nb;
+    if (!Number.isFinite(residual)) throw new Error("Iteration diverged");
+    residuals.push(residual);
+    onIteration?.(it, residual);
+    if (residual < tolerance) return { x, iterations: it, residuals, converged: true };
+  }
+  return { x, iterations: maxIterations, residuals, converged: false };
+}
+
+/** Solve Ax = b iteratively; the residuals say how far the result is from solving it. */
+export function solveSparse(
+  A: Csr,
+  b: Vec,
+  { method = "bicgstab", tolerance = 1e-10, maxIterations = 10000, x0, onIteration }: SparseOptions = {}
+): SparseSolution {
+  if (b.length !== A.n) throw new Error("b length mismatch");
+  const x = x0 ? x0.slice() : Array(A.n).fill(0);
+  return method === "bicgstab"
+    ? bicgstab(A, b, x, tolerance, maxIterations, onIteration)
+    : gaussSeidel(A, b, x, tolerance, maxIterations, onIteration);
+}
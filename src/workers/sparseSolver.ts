@@ -0,0 +1,53 @@
+import type { Csr, SparseMethod, SparseSolution } from "../utils/sparse";
+import type { SolveMessage, SolveRequest } from "./sparseSolver.worker";
+
+export type WorkerSolve = {
+  result: Promise<SparseSolution>;
+  /** Stop the solve; `result` then rejects with a "Cancelled" error */
+  cancel: () => void;
+};
+
+export type WorkerSolveOptions = {
+  method?: SparseMethod;
+  tolerance?: number;
+  maxIterations?: number;
+  onProgress?: (iteration: number, residual: number) => void;
+};
+
+/** Solve Ax = b iteratively in a Web Worker of its own, which is ended when the solve is. */
+export function solveInWorker(
+  A: Csr,
+  b: number[],
+  { method = "bicgstab", tolerance = 1e-10, maxIterations = 10000, onProgress }: WorkerSolveOptions = {}
+): WorkerSolve {
+  const worker = new Worker(new URL("./sparseSolver.worker.ts", import.meta.url), { type: "module" });
+  let settle: ((error: Error) => void) | null = null;
+
+  const result = new Promise<SparseSolution>((resolve, reject) => {
+    settle = (error) => {
+      worker.terminate();
+      reject(error);
+    };
+    worker.onmessage = ({ data }: MessageEvent<SolveMessage>) => {
+      if (data.kind === "progress") {
+        onProgress?.(data.iteration, data.residual);
+        return;
+      }
+      worker.terminate();
+      settle = null;
+      if (data.kind === "done") resolve(data.solution);
+      else reject(new Error(data.message));
+    };
+    worker.onerror = (e) => settle?.(new Error(e.message || "The solver stopped unexpectedly"));
+    const request: SolveRequest = { A, b, method, tolerance, maxIterations };
+    worker.postMessage(request);
+  });
+
+  return {
+    result,
+    cancel: () => {
+      settle?.(new Error("Cancelled"));
+      settle = null;
+    },
+  };
+}
@@ -0,0 +1,47 @@
+import { solveSparse, type Csr, type SparseMethod, type SparseSolution } from "../utils/sparse";
+
+/**
+ * Runs `solveSparse` off the UI thread. The page sends one request per
+ * worker and cancels by terminating the worker, so there is no cancel message.
+ */
+
+export type SolveRequest = {
+  A: Csr;
+  b: number[];
+  method: SparseMethod;
+  tolerance: number;
+  maxIterations: number;
+};
+
+export type SolveMessage =
+  | { kind: "progress"; iteration: number; residual: number }
+  | { kind: "done"; solution: SparseSolution }
+  | { kind: "error"; message: string };
+
+/** Progress is reported at most this often, in milliseconds. */
+const PROGRESS_INTERVAL = 100;
+
+const ctx = self as unknown as {
+  onmessage: ((e: MessageEvent<SolveRequest>) => void) | null;
+  postMessage: (message: SolveMessage) => void;
+};
+
+ctx.onmessage = ({ data }) => {
+  let last = 0;
+  try {
+    const solution = solveSparse(data.A, data.b, {
+      method: data.method,
+      tolerance: data.tolerance,
+      maxIterations: data.maxIterations,
+      onIteration: (iteration, residual) => {
+        const now = Date.now();
+        if (now - last < PROGRESS_INTERVAL) return;
+        last = now;
+        ctx.postMessage({ kind: "progress", iteration, residual });
+      },
+    });
+    ctx.postMessage({ kind: "done", solution });
+  } catch (e) {
+    ctx.postMessage({ kind: "error", message: e instanceof Error ? e.message : String(e) });
+  }
+};